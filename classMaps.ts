@@ -0,0 +1,195 @@
+import type { ClassMap, TableCell } from './index'
+
+type CellStyles = NonNullable<TableCell['styles']>
+
+/**
+ * Classes understood without configuration
+ */
+export const defaultClassMap: ClassMap = {
+    'text-left': { textAlign: 'left' },
+    'text-center': { textAlign: 'center' },
+    'text-right': { textAlign: 'right' },
+    'font-bold': { fontWeight: 'bold' },
+    'bold': { fontWeight: 'bold' },
+    'font-normal': { fontWeight: 'normal' },
+    'border-none': { borderStyle: 'none' }
+}
+
+// Bootstrap 5.3 theme colors
+const BOOTSTRAP_COLORS: { [name: string]: string } = {
+    primary: '0D6EFD', secondary: '6C757D', success: '198754', danger: 'DC3545',
+    warning: 'FFC107', info: '0DCAF0', light: 'F8F9FA', dark: '212529'
+}
+
+// Backgrounds of .bg-*-subtle and the .table-* row variants
+const BOOTSTRAP_SUBTLE_COLORS: { [name: string]: string } = {
+    primary: 'CFE2FF', secondary: 'E2E3E5', success: 'D1E7DD', danger: 'F8D7DA',
+    warning: 'FFF3CD', info: 'CFF4FC', light: 'F8F9FA', dark: 'CED4DA'
+}
+
+/**
+ * Bootstrap 5 utility and table classes
+ */
+export const bootstrapClassMap: ClassMap = {
+    'text-start': { textAlign: 'left' },
+    'text-center': { textAlign: 'center' },
+    'text-end': { textAlign: 'right' },
+    'align-top': { verticalAlign: 'top' },
+    'align-middle': { verticalAlign: 'center' },
+    'align-bottom': { verticalAlign: 'bottom' },
+    'fw-bold': { fontWeight: 'bold' },
+    'fw-bolder': { fontWeight: 'bold' },
+    'fw-semibold': { fontWeight: 'bold' },
+    'fw-normal': { fontWeight: 'normal' },
+    'fw-light': { fontWeight: 'normal' },
+    'fw-lighter': { fontWeight: 'normal' },
+    'fst-italic': { fontStyle: 'italic' },
+    'fst-normal': { fontStyle: 'normal' },
+    'font-monospace': { fontFamily: 'Courier New' },
+    'text-decoration-underline': { underline: true },
+    'text-decoration-line-through': { strike: true },
+    'text-decoration-none': { underline: false, strike: false },
+    'text-nowrap': { wrapText: false },
+    'text-wrap': { wrapText: true },
+    'fs-1': { fontSize: 28 },
+    'fs-2': { fontSize: 22 },
+    'fs-3': { fontSize: 19 },
+    'fs-4': { fontSize: 17 },
+    'fs-5': { fontSize: 14 },
+    'fs-6': { fontSize: 11 },
+    'small': { fontSize: 10 },
+    'text-body': { color: '212529' },
+    'text-muted': { color: '6C757D' },
+    'text-white': { color: 'FFFFFF' },
+    'text-black': { color: '000000' },
+    'bg-white': { backgroundColor: 'FFFFFF' },
+    'bg-black': { backgroundColor: '000000' },
+    'border': { borderStyle: 'thin' },
+    'border-0': { borderStyle: 'none' },
+    'border-top-0': { borderTop: { style: 'none' } },
+    'border-end-0': { borderRight: { style: 'none' } },
+    'border-bottom-0': { borderBottom: { style: 'none' } },
+    'border-start-0': { borderLeft: { style: 'none' } },
+    'table-dark': { backgroundColor: '212529', color: 'FFFFFF' },
+    ...Object.fromEntries(Object.entries(BOOTSTRAP_COLORS).flatMap(([name, color]) => [
+        [`text-${name}`, { color }],
+        [`bg-${name}`, { backgroundColor: color, color: ['warning', 'info', 'light'].includes(name) ? '000000' : 'FFFFFF' }],
+        [`border-${name}`, { borderColor: color }]
+    ])),
+    ...Object.fromEntries(Object.entries(BOOTSTRAP_SUBTLE_COLORS).flatMap(([name, color]) => [
+        [`bg-${name}-subtle`, { backgroundColor: color }],
+        ...(name === 'dark' ? [] : [[`table-${name}`, { backgroundColor: color, color: '000000' }]])
+    ]))
+}
+
+const TAILWIND_SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950]
+
+// Tailwind CSS v3 default color palette, shades 50-950
+const TAILWIND_PALETTE: { [name: string]: string } = {
+    slate: 'f8fafc f1f5f9 e2e8f0 cbd5e1 94a3b8 64748b 475569 334155 1e293b 0f172a 020617',
+    gray: 'f9fafb f3f4f6 e5e7eb d1d5db 9ca3af 6b7280 4b5563 374151 1f2937 111827 030712',
+    zinc: 'fafafa f4f4f5 e4e4e7 d4d4d8 a1a1aa 71717a 52525b 3f3f46 27272a 18181b 09090b',
+    neutral: 'fafafa f5f5f5 e5e5e5 d4d4d4 a3a3a3 737373 525252 404040 262626 171717 0a0a0a',
+    stone: 'fafaf9 f5f5f4 e7e5e4 d6d3d1 a8a29e 78716c 57534e 44403c 292524 1c1917 0c0a09',
+    red: 'fef2f2 fee2e2 fecaca fca5a5 f87171 ef4444 dc2626 b91c1c 991b1b 7f1d1d 450a0a',
+    orange: 'fff7ed ffedd5 fed7aa fdba74 fb923c f97316 ea580c c2410c 9a3412 7c2d12 431407',
+    amber: 'fffbeb fef3c7 fde68a fcd34d fbbf24 f59e0b d97706 b45309 92400e 78350f 451a03',
+    yellow: 'fefce8 fef9c3 fef08a fde047 facc15 eab308 ca8a04 a16207 854d0e 713f12 422006',
+    lime: 'f7fee7 ecfccb d9f99d bef264 a3e635 84cc16 65a30d 4d7c0f 3f6212 365314 1a2e05',
+    green: 'f0fdf4 dcfce7 bbf7d0 86efac 4ade80 22c55e 16a34a 15803d 166534 14532d 052e16',
+    emerald: 'ecfdf5 d1fae5 a7f3d0 6ee7b7 34d399 10b981 059669 047857 065f46 064e3b 022c22',
+    teal: 'f0fdfa ccfbf1 99f6e4 5eead4 2dd4bf 14b8a6 0d9488 0f766e 115e59 134e4a 042f2e',
+    cyan: 'ecfeff cffafe a5f3fc 67e8f9 22d3ee 06b6d4 0891b2 0e7490 155e75 164e63 083344',
+    sky: 'f0f9ff e0f2fe bae6fd 7dd3fc 38bdf8 0ea5e9 0284c7 0369a1 075985 0c4a6e 082f49',
+    blue: 'eff6ff dbeafe bfdbfe 93c5fd 60a5fa 3b82f6 2563eb 1d4ed8 1e40af 1e3a8a 172554',
+    indigo: 'eef2ff e0e7ff c7d2fe a5b4fc 818cf8 6366f1 4f46e5 4338ca 3730a3 312e81 1e1b4b',
+    violet: 'f5f3ff ede9fe ddd6fe c4b5fd a78bfa 8b5cf6 7c3aed 6d28d9 5b21b6 4c1d95 2e1065',
+    purple: 'faf5ff f3e8ff e9d5ff d8b4fe c084fc a855f7 9333ea 7e22ce 6b21a8 581c87 3b0764',
+    fuchsia: 'fdf4ff fae8ff f5d0fe f0abfc e879f9 d946ef c026d3 a21caf 86198f 701a75 4a044e',
+    pink: 'fdf2f8 fce7f3 fbcfe8 f9a8d4 f472b6 ec4899 db2777 be185d 9d174d 831843 500724',
+    rose: 'fff1f2 ffe4e6 fecdd3 fda4af fb7185 f43f5e e11d48 be123c 9f1239 881337 4c0519'
+}
+
+// text-xs ... text-4xl (rem sizes scaled from an 11pt base, like CSS font-size)
+const TAILWIND_FONT_SIZES: { [name: string]: number } = {
+    xs: 8, sm: 10, base: 11, lg: 12, xl: 14, '2xl': 17, '3xl': 21, '4xl': 25
+}
+
+const tailwindColors: { [name: string]: string } = {
+    black: '000000',
+    white: 'FFFFFF',
+    ...Object.fromEntries(Object.entries(TAILWIND_PALETTE).flatMap(([name, shades]) =>
+        shades.split(' ').map((color, index) => [`${name}-${TAILWIND_SHADES[index]}`, color.toUpperCase()])))
+}
+
+/**
+ * Tailwind CSS utility classes with the default color palette
+ */
+export const tailwindClassMap: ClassMap = {
+    'text-left': { textAlign: 'left' },
+    'text-center': { textAlign: 'center' },
+    'text-right': { textAlign: 'right' },
+    'text-justify': { textAlign: 'justify' },
+    'text-start': { textAlign: 'left' },
+    'text-end': { textAlign: 'right' },
+    'align-top': { verticalAlign: 'top' },
+    'align-middle': { verticalAlign: 'center' },
+    'align-bottom': { verticalAlign: 'bottom' },
+    'font-black': { fontWeight: 'bold' },
+    'font-extrabold': { fontWeight: 'bold' },
+    'font-bold': { fontWeight: 'bold' },
+    'font-semibold': { fontWeight: 'bold' },
+    'font-medium': { fontWeight: 'normal' },
+    'font-normal': { fontWeight: 'normal' },
+    'font-light': { fontWeight: 'normal' },
+    'font-sans': { fontFamily: 'Arial' },
+    'font-serif': { fontFamily: 'Times New Roman' },
+    'font-mono': { fontFamily: 'Courier New' },
+    'italic': { fontStyle: 'italic' },
+    'not-italic': { fontStyle: 'normal' },
+    'underline': { underline: true },
+    'line-through': { strike: true },
+    'no-underline': { underline: false, strike: false },
+    'whitespace-nowrap': { wrapText: false },
+    'whitespace-pre': { wrapText: false },
+    'whitespace-normal': { wrapText: true },
+    'border': { borderStyle: 'thin' },
+    'border-0': { borderStyle: 'none' },
+    'border-2': { borderStyle: 'medium' },
+    'border-4': { borderStyle: 'thick' },
+    'border-8': { borderStyle: 'thick' },
+    'border-dashed': { borderStyle: 'dashed' },
+    'border-dotted': { borderStyle: 'dotted' },
+    'border-double': { borderStyle: 'double' },
+    'border-none': { borderStyle: 'none' },
+    'border-t-0': { borderTop: { style: 'none' } },
+    'border-r-0': { borderRight: { style: 'none' } },
+    'border-b-0': { borderBottom: { style: 'none' } },
+    'border-l-0': { borderLeft: { style: 'none' } },
+    ...Object.fromEntries(Object.entries(TAILWIND_FONT_SIZES).map(([name, fontSize]) => [`text-${name}`, { fontSize }])),
+    ...Object.fromEntries(Object.entries(tailwindColors).flatMap(([name, color]) => [
+        [`text-${name}`, { color }],
+        [`bg-${name}`, { backgroundColor: color }],
+        [`border-${name}`, { borderColor: color }]
+    ]))
+}
+
+/**
+ * Styles for a class attribute, merged in class order
+ * @param classAttr Value of the class attribute
+ * @param classMap Custom entries, looked up before the default classes
+ * @param filter Keeps only some style properties (e.g. the inherited ones)
+ */
+export function classStyles(classAttr: string | undefined, classMap: ClassMap = {}, filter?: (property: keyof CellStyles) => boolean): CellStyles {
+    const styles: CellStyles = {}
+    const classNames = (classAttr || '').split(/\s+/).filter(Boolean)
+
+    classNames.forEach(className => {
+        const entry = classMap[className] ?? defaultClassMap[className.toLowerCase()]
+        if (!entry) return
+
+        Object.assign(styles, Object.fromEntries(Object.entries(entry).filter(([property]) => !filter || filter(property as keyof CellStyles))))
+    })
+
+    return styles
+}
@@ -0,0 +1,80 @@
+import * as XLSX from 'xlsx-js-style'
+import type { CellComment } from './index'
+import { escapeXml } from './xlsxPackage'
+import { DEFAULT_COLUMN_PX, DEFAULT_ROW_PX, columnWidthToPixels } from './sizing'
+
+export const COMMENTS_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.comments+xml'
+export const VML_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.vmlDrawing'
+export const COMMENTS_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments'
+export const VML_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/vmlDrawing'
+
+// Size of a note box in pixels when the comments option sets none
+export const DEFAULT_NOTE_SIZE = { width: 144, height: 80 }
+
+// Notes open right of their cell, slightly above it
+const LEFT_OFFSET_PX = 15
+const TOP_OFFSET_PX = 10
+
+export interface SheetNote {
+    address: XLSX.CellAddress
+    comment: CellComment
+}
+
+/**
+ * Comments part (xl/commentsN.xml) of a sheet
+ */
+export function commentsXml(notes: SheetNote[]): string {
+    const authors = Array.from(new Set(notes.map(note => note.comment.author || '')))
+    const comments = notes.map(({ address, comment }) =>
+        `<comment ref="${XLSX.utils.encode_cell(address)}" authorId="${authors.indexOf(comment.author || '')}">` +
+        `<text><t xml:space="preserve">${escapeXml(comment.text)}</t></text></comment>`).join('')
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<comments xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `<authors>${authors.map(author => `<author>${escapeXml(author)}</author>`).join('')}</authors>` +
+        `<commentList>${comments}</commentList></comments>`
+}
+
+/**
+ * VML drawing with the hidden note boxes of a sheet; Excel places each box by its anchor
+ * @param sheetNumber One-based sheet number, keeping shape ids unique in the workbook
+ * @param size Box size in pixels
+ * @param columnWidth Width of a column in characters, undefined for the default width
+ */
+export function vmlDrawingXml(notes: SheetNote[], sheetNumber: number, size: { width: number, height: number }, columnWidth: (c: number) => number | undefined): string {
+    const columnPixels = (c: number) => {
+        const width = columnWidth(c)
+        return width !== undefined ? columnWidthToPixels(width) : DEFAULT_COLUMN_PX
+    }
+
+    const shapes = notes.map(({ address }, index) =>
+        `<v:shape id="_x0000_s${sheetNumber * 1024 + index + 1}" type="#_x0000_t202" ` +
+        `style="position:absolute;margin-left:59.25pt;margin-top:1.5pt;width:${size.width * 0.75}pt;height:${size.height * 0.75}pt;z-index:${index + 1};visibility:hidden" ` +
+        'fillcolor="#ffffe1" o:insetmode="auto"><v:fill color2="#ffffe1"/><v:shadow on="t" color="black" obscured="t"/>' +
+        '<v:path o:connecttype="none"/><v:textbox style="mso-direction-alt:auto"><div style="text-align:left"></div></v:textbox>' +
+        `<x:ClientData ObjectType="Note"><x:MoveWithCells/><x:SizeWithCells/><x:Anchor>${noteAnchor(address, size, columnPixels)}</x:Anchor>` +
+        `<x:AutoFill>False</x:AutoFill><x:Row>${address.r}</x:Row><x:Column>${address.c}</x:Column></x:ClientData></v:shape>`).join('')
+
+    return '<xml xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:x="urn:schemas-microsoft-com:office:excel">' +
+        `<o:shapelayout v:ext="edit"><o:idmap v:ext="edit" data="${sheetNumber}"/></o:shapelayout>` +
+        '<v:shapetype id="_x0000_t202" coordsize="21600,21600" o:spt="202" path="m,l,21600r21600,l21600,xe">' +
+        '<v:stroke joinstyle="miter"/><v:path gradientshapeok="t" o:connecttype="rect"/></v:shapetype>' +
+        `${shapes}</xml>`
+}
+
+// Left column, offset, top row, offset, right column, offset, bottom row, offset
+function noteAnchor(address: XLSX.CellAddress, size: { width: number, height: number }, columnPixels: (c: number) => number): string {
+    let right = address.c + 1
+    let rightOffset = LEFT_OFFSET_PX + size.width
+    while (rightOffset > columnPixels(right)) {
+        rightOffset -= columnPixels(right)
+        right++
+    }
+
+    const top = Math.max(0, address.r - 1)
+    const topOffset = address.r > 0 ? TOP_OFFSET_PX : 2
+    const rows = Math.floor((topOffset + size.height) / DEFAULT_ROW_PX)
+    const bottomOffset = (topOffset + size.height) % DEFAULT_ROW_PX
+
+    return [address.c + 1, LEFT_OFFSET_PX, top, topOffset, right, Math.round(rightOffset), top + rows, Math.round(bottomOffset)].join(', ')
+}
@@ -0,0 +1,206 @@
+import * as XLSX from 'xlsx-js-style'
+import type { CellIsOperator, ConditionalFormat, ConditionalFormatRule, ConditionalStyle, IconSetName } from './index'
+import { parseColor } from './css'
+import { escapeXml } from './xlsxPackage'
+
+const CELL_IS_OPERATORS: { [token: string]: CellIsOperator } = {
+    '>': 'greaterThan',
+    '>=': 'greaterThanOrEqual',
+    '<': 'lessThan',
+    '<=': 'lessThanOrEqual',
+    '=': 'equal',
+    '==': 'equal',
+    '!=': 'notEqual',
+    '<>': 'notEqual',
+    'between': 'between',
+    'notbetween': 'notBetween'
+}
+
+const ICON_SETS: IconSetName[] = [
+    '3Arrows', '3ArrowsGray', '3Flags', '3TrafficLights1', '3TrafficLights2', '3Signs', '3Symbols', '3Symbols2',
+    '4Arrows', '4ArrowsGray', '4RedToBlack', '4Rating', '4TrafficLights',
+    '5Arrows', '5ArrowsGray', '5Rating', '5Quarters'
+]
+
+// Red, yellow, green: Excel's default color scale
+const DEFAULT_COLOR_SCALE = ['F8696B', 'FFEB84', '63BE7B']
+const DEFAULT_DATA_BAR_COLOR = '638EC6'
+const DEFAULT_ICON_SET: IconSetName = '3TrafficLights1'
+
+/**
+ * Parse a data-xlsx-cf attribute (or a string given in the options): rules separated by ";"
+ *   cellIs > 100 fill:#C6EFCE color:#006100 | cellIs between 10 20 bold
+ *   expression "$B2>$C2" fill:#FFC7CE
+ *   colorScale #F8696B #63BE7B | dataBar #638EC6 | iconSet 3Arrows reverse
+ * Rules that cannot be read are skipped with a warning
+ */
+export function parseConditionalFormats(text: string): ConditionalFormat[] {
+    return text.split(';').map(rule => rule.trim()).filter(Boolean).flatMap(rule => {
+        const format = parseRule(rule)
+        if (!format) {
+            console.warn(`⚠️ Unsupported conditional format "${rule}", skipping it`)
+        }
+        return format ? [format] : []
+    })
+}
+
+/**
+ * Cell ranges of the rules over the data rows of a sheet; rules outside the written columns,
+ * and all rules of a sheet without data rows, are dropped
+ * @param fromRow First data row (zero-based)
+ * @param lastRow Last written row
+ * @param lastColumn Last written column
+ */
+export function conditionalFormatRanges(rules: ConditionalFormatRule[], fromRow: number, lastRow: number, lastColumn: number): { ref: string, format: ConditionalFormat }[] {
+    if (lastRow < fromRow) return []
+
+    return rules.filter(rule => rule.column === undefined || rule.column <= lastColumn).map(rule => ({
+        ref: XLSX.utils.encode_range({ s: { r: fromRow, c: rule.column ?? 0 }, e: { r: lastRow, c: rule.column ?? lastColumn } }),
+        format: rule.format
+    }))
+}
+
+/**
+ * <conditionalFormatting> elements of a sheet, prioritized in the order given
+ * @param dxfId Index of a style in the styles.xml <dxfs> table
+ */
+export function conditionalFormattingXml(ranges: { ref: string, format: ConditionalFormat }[], dxfId: (style: ConditionalStyle) => number): string {
+    return ranges.map(({ ref, format }, index) =>
+        `<conditionalFormatting sqref="${ref}">${cfRuleXml(format, index + 1, ref, dxfId)}</conditionalFormatting>`).join('')
+}
+
+/**
+ * Differential format (<dxf>) applied by a rule: only the properties it sets
+ */
+export function dxfXml(style: ConditionalStyle): string {
+    const font = (style.bold ? '<b/>' : '') +
+        (style.italic ? '<i/>' : '') +
+        (style.strike ? '<strike/>' : '') +
+        (style.underline ? '<u/>' : '') +
+        (style.color ? `<color rgb="${argb(style.color)}"/>` : '')
+    const fill = style.fill ? `<fill><patternFill><bgColor rgb="${argb(style.fill)}"/></patternFill></fill>` : ''
+
+    return `<dxf>${font ? `<font>${font}</font>` : ''}${fill}</dxf>`
+}
+
+function cfRuleXml(format: ConditionalFormat, priority: number, ref: string, dxfId: (style: ConditionalStyle) => number): string {
+    switch (format.type) {
+        case 'cellIs':
+        case 'expression': {
+            const style = hasStyle(format.style) ? ` dxfId="${dxfId(format.style)}"` : ''
+            const formulas = format.type === 'cellIs'
+                ? format.values.map(value => `<formula>${escapeXml(valueFormula(value))}</formula>`).join('')
+                : `<formula>${escapeXml(format.formula.replace(/^=/, ''))}</formula>`
+            const operator = format.type === 'cellIs' ? ` operator="${format.operator}"` : ''
+            return `<cfRule type="${format.type}"${style} priority="${priority}"${operator}>${formulas}</cfRule>`
+        }
+        case 'colorScale': {
+            const cfvos = format.colors.length > 2
+                ? '<cfvo type="min"/><cfvo type="percentile" val="50"/><cfvo type="max"/>'
+                : '<cfvo type="min"/><cfvo type="max"/>'
+            const colors = format.colors.map(color => `<color rgb="${argb(color)}"/>`).join('')
+            return `<cfRule type="colorScale" priority="${priority}"><colorScale>${cfvos}${colors}</colorScale></cfRule>`
+        }
+        case 'dataBar':
+            return `<cfRule type="dataBar" priority="${priority}"><dataBar><cfvo type="min"/><cfvo type="max"/>` +
+                `<color rgb="${argb(format.color)}"/></dataBar></cfRule>`
+        case 'iconSet': {
+            // Icons split the range into equal percent bands: 0/33/67, 0/25/50/75, ...
+            const icons = parseInt(format.iconSet)
+            const cfvos = Array.from({ length: icons }, (_, i) => `<cfvo type="percent" val="${Math.round(i * 100 / icons)}"/>`).join('')
+            return `<cfRule type="iconSet" priority="${priority}"><iconSet iconSet="${format.iconSet}"${format.reverse ? ' reverse="1"' : ''}>` +
+                `${cfvos}</iconSet></cfRule>`
+        }
+        default:
+            throw new Error(`Unknown conditional format in ${ref}`)
+    }
+}
+
+/**
+ * Comparison operator for a token such as ">=", "!=" or "between"
+ */
+export function parseOperator(token: string | undefined): CellIsOperator | undefined {
+    return CELL_IS_OPERATORS[token?.toLowerCase() || '']
+}
+
+function parseRule(rule: string): ConditionalFormat | undefined {
+    const tokens = (rule.match(/"[^"]*"|'[^']*'|\S+/g) || [])
+    const type = tokens.shift()?.toLowerCase()
+
+    switch (type) {
+        case 'cellis': {
+            const operator = parseOperator(tokens.shift())
+            const count = operator === 'between' || operator === 'notBetween' ? 2 : 1
+            const values = tokens.splice(0, count).map(parseValue)
+            const style = parseStyle(tokens)
+            return operator && values.length === count && style ? { type: 'cellIs', operator, values, style } : undefined
+        }
+        case 'expression': {
+            const formula = tokens.shift()
+            const style = parseStyle(tokens)
+            return formula && style ? { type: 'expression', formula: unquote(formula), style } : undefined
+        }
+        case 'colorscale': {
+            const colors = tokens.map(parseColor)
+            if (colors.some(color => !color) || colors.length === 1 || colors.length > 3) return undefined
+            return { type: 'colorScale', colors: colors.length > 0 ? colors as string[] : DEFAULT_COLOR_SCALE }
+        }
+        case 'databar': {
+            const [token] = tokens
+            const color = token !== undefined ? parseColor(token) : DEFAULT_DATA_BAR_COLOR
+            return color && tokens.length <= 1 ? { type: 'dataBar', color } : undefined
+        }
+        case 'iconset': {
+            const reverse = tokens.some(token => token.toLowerCase() === 'reverse')
+            const names = tokens.filter(token => token.toLowerCase() !== 'reverse')
+            const iconSet = names.length > 0 ? ICON_SETS.find(name => name.toLowerCase() === names[0].toLowerCase()) : DEFAULT_ICON_SET
+            return iconSet && names.length <= 1 ? { type: 'iconSet', iconSet, reverse } : undefined
+        }
+        default:
+            return undefined
+    }
+}
+
+// Numbers stay numbers, "=..." is a formula and anything else is text
+function parseValue(token: string): string | number {
+    const text = unquote(token)
+    return token === text && text.trim() !== '' && !isNaN(Number(text)) ? Number(text) : text
+}
+
+function valueFormula(value: string | number): string {
+    if (typeof value === 'number') return String(value)
+    return value.startsWith('=') ? value.substring(1) : `"${value.replace(/"/g, '""')}"`
+}
+
+// fill:<color> color:<color> bold italic underline strike
+function parseStyle(tokens: string[]): ConditionalStyle | undefined {
+    const style: ConditionalStyle = {}
+
+    for (const token of tokens) {
+        const [name, value] = token.toLowerCase().split(/:(.*)/)
+        if (name === 'fill' || name === 'color') {
+            const color = parseColor(value || '')
+            if (!color) return undefined
+            style[name] = color
+        } else if (['bold', 'italic', 'underline', 'strike'].includes(name) && value === undefined) {
+            style[name as 'bold' | 'italic' | 'underline' | 'strike'] = true
+        } else {
+            return undefined
+        }
+    }
+
+    return style
+}
+
+function hasStyle(style: ConditionalStyle): boolean {
+    return Object.values(style).some(Boolean)
+}
+
+function unquote(token: string): string {
+    return /^(["']).*\1$/.test(token) ? token.slice(1, -1) : token
+}
+
+function argb(rgb: string): string {
+    const hex = rgb.replace(/^#/, '').toUpperCase()
+    return hex.length === 6 ? `FF${hex}` : hex
+}
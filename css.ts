@@ -0,0 +1,659 @@
+import type { CheerioAPI } from 'cheerio'
+import type { BorderStyle, TableCell } from './index'
+
+export interface CssDeclaration {
+    property: string
+    value: string
+    important: boolean
+}
+
+export interface CssRule {
+    selector: string
+    specificity: number
+    // Source order, breaks ties between rules of equal specificity
+    order: number
+    declarations: CssDeclaration[]
+}
+
+export type CellStyles = NonNullable<TableCell['styles']>
+
+type Side = 'top' | 'right' | 'bottom' | 'left'
+
+interface CssBorder {
+    style?: string
+    width?: number
+    color?: string
+}
+
+const BORDER_SIDES: Side[] = ['top', 'right', 'bottom', 'left']
+
+// CSS named colors (CSS Color Module Level 4)
+const NAMED_COLORS: { [name: string]: string } = {
+    aliceblue: 'F0F8FF', antiquewhite: 'FAEBD7', aqua: '00FFFF', aquamarine: '7FFFD4', azure: 'F0FFFF',
+    beige: 'F5F5DC', bisque: 'FFE4C4', black: '000000', blanchedalmond: 'FFEBCD', blue: '0000FF',
+    blueviolet: '8A2BE2', brown: 'A52A2A', burlywood: 'DEB887', cadetblue: '5F9EA0', chartreuse: '7FFF00',
+    chocolate: 'D2691E', coral: 'FF7F50', cornflowerblue: '6495ED', cornsilk: 'FFF8DC', crimson: 'DC143C',
+    cyan: '00FFFF', darkblue: '00008B', darkcyan: '008B8B', darkgoldenrod: 'B8860B', darkgray: 'A9A9A9',
+    darkgreen: '006400', darkgrey: 'A9A9A9', darkkhaki: 'BDB76B', darkmagenta: '8B008B', darkolivegreen: '556B2F',
+    darkorange: 'FF8C00', darkorchid: '9932CC', darkred: '8B0000', darksalmon: 'E9967A', darkseagreen: '8FBC8F',
+    darkslateblue: '483D8B', darkslategray: '2F4F4F', darkslategrey: '2F4F4F', darkturquoise: '00CED1', darkviolet: '9400D3',
+    deeppink: 'FF1493', deepskyblue: '00BFFF', dimgray: '696969', dimgrey: '696969', dodgerblue: '1E90FF',
+    firebrick: 'B22222', floralwhite: 'FFFAF0', forestgreen: '228B22', fuchsia: 'FF00FF', gainsboro: 'DCDCDC',
+    ghostwhite: 'F8F8FF', gold: 'FFD700', goldenrod: 'DAA520', gray: '808080', green: '008000',
+    greenyellow: 'ADFF2F', grey: '808080', honeydew: 'F0FFF0', hotpink: 'FF69B4', indianred: 'CD5C5C',
+    indigo: '4B0082', ivory: 'FFFFF0', khaki: 'F0E68C', lavender: 'E6E6FA', lavenderblush: 'FFF0F5',
+    lawngreen: '7CFC00', lemonchiffon: 'FFFACD', lightblue: 'ADD8E6', lightcoral: 'F08080', lightcyan: 'E0FFFF',
+    lightgoldenrodyellow: 'FAFAD2', lightgray: 'D3D3D3', lightgreen: '90EE90', lightgrey: 'D3D3D3', lightpink: 'FFB6C1',
+    lightsalmon: 'FFA07A', lightseagreen: '20B2AA', lightskyblue: '87CEFA', lightslategray: '778899', lightslategrey: '778899',
+    lightsteelblue: 'B0C4DE', lightyellow: 'FFFFE0', lime: '00FF00', limegreen: '32CD32', linen: 'FAF0E6',
+    magenta: 'FF00FF', maroon: '800000', mediumaquamarine: '66CDAA', mediumblue: '0000CD', mediumorchid: 'BA55D3',
+    mediumpurple: '9370DB', mediumseagreen: '3CB371', mediumslateblue: '7B68EE', mediumspringgreen: '00FA9A', mediumturquoise: '48D1CC',
+    mediumvioletred: 'C71585', midnightblue: '191970', mintcream: 'F5FFFA', mistyrose: 'FFE4E1', moccasin: 'FFE4B5',
+    navajowhite: 'FFDEAD', navy: '000080', oldlace: 'FDF5E6', olive: '808000', olivedrab: '6B8E23',
+    orange: 'FFA500', orangered: 'FF4500', orchid: 'DA70D6', palegoldenrod: 'EEE8AA', palegreen: '98FB98',
+    paleturquoise: 'AFEEEE', palevioletred: 'DB7093', papayawhip: 'FFEFD5', peachpuff: 'FFDAB9', peru: 'CD853F',
+    pink: 'FFC0CB', plum: 'DDA0DD', powderblue: 'B0E0E6', purple: '800080', rebeccapurple: '663399',
+    red: 'FF0000', rosybrown: 'BC8F8F', royalblue: '4169E1', saddlebrown: '8B4513', salmon: 'FA8072',
+    sandybrown: 'F4A460', seagreen: '2E8B57', seashell: 'FFF5EE', sienna: 'A0522D', silver: 'C0C0C0',
+    skyblue: '87CEEB', slateblue: '6A5ACD', slategray: '708090', slategrey: '708090', snow: 'FFFAFA',
+    springgreen: '00FF7F', steelblue: '4682B4', tan: 'D2B48C', teal: '008080', thistle: 'D8BFD8',
+    tomato: 'FF6347', turquoise: '40E0D0', violet: 'EE82EE', wheat: 'F5DEB3', white: 'FFFFFF',
+    whitesmoke: 'F5F5F5', yellow: 'FFFF00', yellowgreen: '9ACD32'
+}
+
+// Properties a cell inherits from its row, section, table and outer elements
+const INHERITED_PROPERTIES = new Set([
+    'color', 'font', 'font-family', 'font-size', 'font-style', 'font-weight',
+    'text-align', 'white-space', 'text-decoration', 'text-decoration-line'
+])
+
+// Table parts whose background shows through cells without their own
+const TABLE_PARTS = new Set(['table', 'thead', 'tbody', 'tfoot', 'tr'])
+
+const BORDER_WIDTH_KEYWORDS: { [keyword: string]: number } = { thin: 1, medium: 3, thick: 5 }
+
+const FONT_SIZE_KEYWORDS: { [keyword: string]: number } = {
+    'xx-small': 7, 'x-small': 8, small: 10, medium: 11, large: 13, 'x-large': 16, 'xx-large': 20
+}
+
+const GENERIC_FONT_FAMILIES: { [family: string]: string } = {
+    serif: 'Times New Roman', 'sans-serif': 'Arial', monospace: 'Courier New', cursive: 'Comic Sans MS', 'system-ui': 'Calibri'
+}
+
+/**
+ * Split a style attribute or rule body into declarations
+ * Semicolons inside quotes or parentheses (e.g. url(...)) do not end a declaration
+ */
+export function parseDeclarations(text: string): CssDeclaration[] {
+    const declarations: CssDeclaration[] = []
+
+    splitTopLevel(text.replace(/\/\*[\s\S]*?\*\//g, ''), ';').forEach(part => {
+        const colon = part.indexOf(':')
+        if (colon <= 0) return
+
+        const property = part.substring(0, colon).trim().toLowerCase()
+        let value = part.substring(colon + 1).trim()
+        const important = /!\s*important$/i.test(value)
+        if (important) {
+            value = value.replace(/!\s*important$/i, '').trim()
+        }
+
+        if (property && value) {
+            declarations.push({ property, value, important })
+        }
+    })
+
+    return declarations
+}
+
+/**
+ * Parse a style sheet into one rule per selector
+ * At-rules (@media, @font-face, ...) are skipped
+ * @param css Style sheet text
+ * @param firstOrder Source order of the first rule, so several sheets can be combined
+ */
+export function parseStyleSheet(css: string, firstOrder = 0): CssRule[] {
+    const rules: CssRule[] = []
+    const text = css.replace(/\/\*[\s\S]*?\*\//g, '').replace(/<!--|-->/g, '')
+    let position = 0
+
+    while (position < text.length) {
+        const open = text.indexOf('{', position)
+        if (open < 0) break
+
+        const prelude = text.substring(position, open).trim()
+        const close = findBlockEnd(text, open)
+        const body = text.substring(open + 1, close)
+        position = close + 1
+
+        if (!prelude || prelude.startsWith('@')) continue
+
+        const declarations = parseDeclarations(body)
+        splitTopLevel(prelude, ',').forEach(selector => {
+            rules.push({ selector, specificity: specificity(selector), order: firstOrder + rules.length, declarations })
+        })
+    }
+
+    return rules
+}
+
+/**
+ * Resolves the CSS cascade for elements of one document:
+ * matching rules by specificity and source order, then the inline style, with !important on top
+ */
+export class StyleCascade {
+    private readonly cache = new Map<any, CssDeclaration[]>()
+    private readonly invalidSelectors = new Set<string>()
+
+    constructor(private readonly $: CheerioAPI, readonly rules: CssRule[] = []) { }
+
+    /**
+     * Cascaded declarations of an element, in the order they should be applied
+     */
+    declarationsFor(element: any): CssDeclaration[] {
+        const cached = this.cache.get(element)
+        if (cached) return cached
+
+        const matched = this.rules
+            .filter(rule => this.matches(element, rule.selector))
+            .sort((a, b) => a.specificity - b.specificity || a.order - b.order)
+            .flatMap(rule => rule.declarations)
+        const inline = parseDeclarations(element.attribs?.style || '')
+
+        const declarations = [
+            ...matched.filter(declaration => !declaration.important),
+            ...inline.filter(declaration => !declaration.important),
+            ...matched.filter(declaration => declaration.important),
+            ...inline.filter(declaration => declaration.important)
+        ]
+
+        this.cache.set(element, declarations)
+        return declarations
+    }
+
+    /**
+     * Declarations for a table cell: inherited values from its ancestors (outermost first),
+     * backgrounds of its row/section/table, then the cell's own declarations
+     */
+    cellDeclarations(cell: any): CssDeclaration[] {
+        const ancestors = this.$(cell).parents().toArray().reverse()
+        const ownTable: any = this.$(cell).closest('table')[0]
+        const insideOwnTable = new Set<any>(ownTable ? [...this.$(cell).parentsUntil(ownTable).toArray(), ownTable] : [])
+
+        const inherited = ancestors.flatMap(ancestor => {
+            const paintsBackground = insideOwnTable.has(ancestor) && TABLE_PARTS.has(ancestor.name)
+            return this.declarationsFor(ancestor).filter(({ property }) =>
+                INHERITED_PROPERTIES.has(property) || (paintsBackground && (property === 'background' || property === 'background-color')))
+        })
+
+        return [...inherited, ...this.declarationsFor(cell)]
+    }
+
+    private matches(element: any, selector: string): boolean {
+        if (this.invalidSelectors.has(selector) || !mayMatch(element, selector)) return false
+
+        try {
+            return this.$(element).is(selector)
+        } catch {
+            // Selectors cheerio cannot evaluate (:hover, ::before, ...) never apply to cells
+            this.invalidSelectors.add(selector)
+            return false
+        }
+    }
+}
+
+/**
+ * Convert any CSS color to Excel's RRGGBB
+ * Supports #rgb, #rgba, #rrggbb, #rrggbbaa, rgb(), rgba(), hsl(), hsla() and named colors;
+ * translucent colors are blended on white. Returns undefined for transparent or unknown values
+ */
+export function parseColor(value: string): string | undefined {
+    const color = value.trim().toLowerCase()
+
+    if (color.startsWith('#')) {
+        let hex = color.substring(1)
+        if (!/^[0-9a-f]+$/.test(hex) || ![3, 4, 6, 8].includes(hex.length)) return undefined
+        if (hex.length <= 4) {
+            hex = hex.split('').map(digit => digit + digit).join('')
+        }
+        const alpha = hex.length === 8 ? parseInt(hex.substring(6, 8), 16) / 255 : 1
+        const channels = [0, 2, 4].map(offset => parseInt(hex.substring(offset, offset + 2), 16))
+        return blendOnWhite(channels, alpha)
+    }
+
+    const functionMatch = color.match(/^(rgba?|hsla?)\((.*)\)$/)
+    if (functionMatch) {
+        const args = functionMatch[2].split(/[\s,/]+/).filter(Boolean)
+        if (args.length < 3) return undefined
+
+        const alpha = args[3] !== undefined ? parseAlpha(args[3]) : 1
+        if (functionMatch[1].startsWith('rgb')) {
+            const channels = args.slice(0, 3).map(arg => arg.endsWith('%') ? parseFloat(arg) * 2.55 : parseFloat(arg))
+            if (channels.some(channel => isNaN(channel))) return undefined
+            return blendOnWhite(channels, alpha)
+        }
+
+        const hue = parseHue(args[0])
+        const saturation = parseFloat(args[1]) / 100
+        const lightness = parseFloat(args[2]) / 100
+        if ([hue, saturation, lightness].some(part => isNaN(part))) return undefined
+        return blendOnWhite(hslToRgb(hue, saturation, lightness), alpha)
+    }
+
+    return NAMED_COLORS[color]
+}
+
+/**
+ * Convert a CSS length to pixels
+ * @param value CSS length (px, pt, em, rem, in, cm, mm, or unitless pixels)
+ * @param fontSizePx Font size used for em units
+ */
+export function parseLength(value: string, fontSizePx = 16): number | undefined {
+    const match = value.trim().toLowerCase().match(/^(-?\d*\.?\d+)(px|pt|em|rem|in|cm|mm)?$/)
+    if (!match) return undefined
+
+    const number = parseFloat(match[1])
+    switch (match[2]) {
+        case 'pt': return number * 4 / 3
+        case 'em': return number * fontSizePx
+        case 'rem': return number * 16
+        case 'in': return number * 96
+        case 'cm': return number * 96 / 2.54
+        case 'mm': return number * 96 / 25.4
+        default: return number
+    }
+}
+
+/**
+ * Apply CSS declarations (in cascade order) to cell styles
+ * @param declarations Declarations, later ones win
+ * @param styles Styles to extend
+ */
+export function applyDeclarations(declarations: CssDeclaration[], styles: CellStyles = {}): CellStyles {
+    // Borders are collected per side first: Excel's style depends on CSS style and width together
+    const borders: { [side in Side]?: CssBorder } = {}
+    const setBorder = (sides: Side[], border: CssBorder) => {
+        sides.forEach(side => {
+            borders[side] = { ...borders[side], ...border }
+        })
+    }
+
+    declarations.forEach(({ property, value }) => {
+        const lowerValue = value.toLowerCase()
+
+        switch (property) {
+            case 'background-color':
+            case 'background': {
+                const color = property === 'background'
+                    ? splitTopLevel(value, ' ').map(parseColor).find(Boolean)
+                    : parseColor(value)
+                if (color) styles.backgroundColor = color
+                break
+            }
+            case 'color': {
+                const color = parseColor(value)
+                if (color) styles.color = color
+                break
+            }
+            case 'text-align': {
+                const align = ({ left: 'left', start: 'left', center: 'center', right: 'right', end: 'right', justify: 'justify' } as const)[lowerValue as 'left']
+                if (align) styles.textAlign = align
+                break
+            }
+            case 'vertical-align': {
+                const align = ({ top: 'top', 'text-top': 'top', middle: 'center', bottom: 'bottom', 'text-bottom': 'bottom', baseline: 'bottom' } as const)[lowerValue as 'top']
+                if (align) styles.verticalAlign = align
+                break
+            }
+            case 'font-size': {
+                const fontSize = parseFontSize(lowerValue)
+                if (fontSize) styles.fontSize = fontSize
+                break
+            }
+            case 'font-weight': {
+                const weight = parseFontWeight(lowerValue)
+                if (weight) styles.fontWeight = weight
+                break
+            }
+            case 'font-style':
+                if (['italic', 'oblique'].includes(lowerValue) || lowerValue.startsWith('oblique')) {
+                    styles.fontStyle = 'italic'
+                } else if (lowerValue === 'normal') {
+                    styles.fontStyle = 'normal'
+                }
+                break
+            case 'font-family': {
+                const family = parseFontFamily(value)
+                if (family) styles.fontFamily = family
+                break
+            }
+            case 'font':
+                applyFontShorthand(value, styles)
+                break
+            case 'text-decoration':
+            case 'text-decoration-line':
+                if (lowerValue.includes('none')) {
+                    styles.underline = false
+                    styles.strike = false
+                } else {
+                    styles.underline = lowerValue.includes('underline')
+                    styles.strike = lowerValue.includes('line-through')
+                }
+                break
+            case 'white-space':
+                styles.wrapText = !['nowrap', 'pre'].includes(lowerValue)
+                break
+            case 'padding':
+            case 'padding-left': {
+                const parts = splitTopLevel(value, ' ')
+                // padding shorthand: the left value is the 4th, 2nd or 1st
+                const left = property === 'padding' ? parts[parts.length === 4 ? 3 : parts.length >= 2 ? 1 : 0] : parts[0]
+                const pixels = left ? parseLength(left) : undefined
+                if (pixels !== undefined) {
+                    styles.indent = Math.max(0, Math.round(pixels / 10)) || undefined
+                }
+                break
+            }
+            case 'border':
+                setBorder(BORDER_SIDES, parseBorderShorthand(value))
+                break
+            case 'border-style':
+            case 'border-width':
+            case 'border-color': {
+                const key = property.substring('border-'.length) as keyof CssBorder
+                expandBoxValues(splitTopLevel(value, ' ')).forEach((part, index) => {
+                    const parsed = parseBorderPart(key, part)
+                    if (parsed !== undefined) setBorder([BORDER_SIDES[index]], { [key]: parsed })
+                })
+                break
+            }
+            default: {
+                const sideMatch = property.match(/^border-(top|right|bottom|left)(?:-(style|width|color))?$/)
+                if (!sideMatch) break
+
+                const side = sideMatch[1] as Side
+                const key = sideMatch[2] as keyof CssBorder | undefined
+                if (!key) {
+                    setBorder([side], parseBorderShorthand(value))
+                } else {
+                    const parsed = parseBorderPart(key, value.trim())
+                    if (parsed !== undefined) setBorder([side], { [key]: parsed })
+                }
+            }
+        }
+    })
+
+    applyBorders(borders, styles)
+    return styles
+}
+
+/**
+ * Map CSS border style and width to an Excel border style
+ */
+export function toBorderStyle(style: string | undefined, width: number | undefined): BorderStyle {
+    const pixels = width ?? 1
+
+    switch (style) {
+        case 'none':
+        case 'hidden':
+            return 'none'
+        // Excel style names, accepted for backwards compatibility
+        case 'thin':
+        case 'medium':
+        case 'thick':
+        case 'hair':
+            return style
+        case 'dashed':
+            return pixels <= 1 ? 'dashed' : 'mediumDashed'
+        case 'dotted':
+            return pixels <= 1 ? 'dotted' : 'mediumDashDotDot'
+        case 'double':
+            return 'double'
+    }
+
+    if (pixels <= 0) return 'none'
+    if (pixels <= 1) return 'thin'
+    if (pixels <= 3) return 'medium'
+    return 'thick'
+}
+
+/**
+ * Selector specificity as a single number: ids, then classes/attributes/pseudo-classes, then types
+ */
+function specificity(selector: string): number {
+    let rest = selector.replace(/::?(before|after|first-line|first-letter)\b|::[\w-]+/g, ' ')
+    const ids = (rest.match(/#[\w-]+/g) || []).length
+    rest = rest.replace(/#[\w-]+/g, ' ')
+    const classes = (rest.match(/\.[\w-]+|\[[^\]]*\]|:[\w-]+/g) || []).length
+    rest = rest.replace(/\.[\w-]+|\[[^\]]*\]|:[\w-]+(\([^)]*\))?/g, ' ')
+    const types = (rest.match(/[a-zA-Z][\w-]*/g) || []).length
+
+    return ids * 10000 + classes * 100 + types
+}
+
+/**
+ * Cheap check of the selector's last compound (tag, #id, .class) before running the full match
+ */
+function mayMatch(element: any, selector: string): boolean {
+    const subject = selector.trim().split(/[\s>+~]+/).pop() || ''
+    if (/[\[:(]/.test(subject)) return true
+
+    const tag = subject.match(/^[a-zA-Z][\w-]*/)?.[0]
+    if (tag && tag.toLowerCase() !== element.name) return false
+
+    const id = subject.match(/#([\w-]+)/)?.[1]
+    if (id && element.attribs?.id !== id) return false
+
+    const classes = (subject.match(/\.[\w-]+/g) || []).map(className => className.substring(1))
+    if (classes.length > 0) {
+        const elementClasses = (element.attribs?.class || '').split(/\s+/)
+        return classes.every(className => elementClasses.includes(className))
+    }
+
+    return true
+}
+
+function findBlockEnd(text: string, open: number): number {
+    let depth = 0
+    for (let index = open; index < text.length; index++) {
+        if (text[index] === '{') depth++
+        if (text[index] === '}' && --depth === 0) return index
+    }
+    return text.length
+}
+
+function applyBorders(borders: { [side in Side]?: CssBorder }, styles: CellStyles) {
+    const sides = BORDER_SIDES.filter(side => borders[side])
+    if (sides.length === 0) return
+
+    const resolved = sides.map(side => {
+        const border = borders[side] as CssBorder
+        return {
+            side,
+            style: border.style !== undefined || border.width !== undefined ? toBorderStyle(border.style, border.width) : undefined,
+            color: border.color
+        }
+    })
+
+    // The same border on all four sides keeps the simple borderStyle/borderColor form
+    const uniform = resolved.length === 4 && resolved.every(side => side.style === resolved[0].style && side.color === resolved[0].color)
+    if (uniform) {
+        if (resolved[0].style) styles.borderStyle = resolved[0].style
+        if (resolved[0].color) styles.borderColor = resolved[0].color
+        return
+    }
+
+    resolved.forEach(({ side, style, color }) => {
+        const key = `border${side.charAt(0).toUpperCase()}${side.substring(1)}` as 'borderTop'
+        styles[key] = { ...styles[key], ...(style ? { style } : {}), ...(color ? { color } : {}) }
+    })
+}
+
+function parseBorderShorthand(value: string): CssBorder {
+    const border: CssBorder = {}
+    splitTopLevel(value, ' ').forEach(part => {
+        const lowerPart = part.toLowerCase()
+        if (['none', 'hidden', 'solid', 'dashed', 'dotted', 'double', 'groove', 'ridge', 'inset', 'outset', 'hair'].includes(lowerPart)) {
+            border.style = lowerPart
+        } else if (parseBorderPart('width', lowerPart) !== undefined) {
+            border.width = parseBorderPart('width', lowerPart) as number
+        } else {
+            const color = parseColor(part)
+            if (color) border.color = color
+        }
+    })
+
+    // A border given only as width/color is drawn solid (as browsers do when a style is set elsewhere)
+    if (!border.style && (border.width !== undefined || border.color)) {
+        border.style = 'solid'
+    }
+    return border
+}
+
+function parseBorderPart(key: keyof CssBorder, value: string): string | number | undefined {
+    const lowerValue = value.toLowerCase()
+    switch (key) {
+        case 'style':
+            return lowerValue
+        case 'width':
+            return BORDER_WIDTH_KEYWORDS[lowerValue] ?? parseLength(lowerValue)
+        case 'color':
+            return parseColor(value)
+    }
+}
+
+function parseFontSize(value: string): number | undefined {
+    if (FONT_SIZE_KEYWORDS[value]) return FONT_SIZE_KEYWORDS[value]
+
+    const match = value.match(/^(\d*\.?\d+)(px|pt|em|rem|%)?$/)
+    if (!match) return undefined
+
+    const size = parseFloat(match[1])
+    switch (match[2]) {
+        case 'em':
+        case 'rem':
+            return Math.round(size * 11)
+        case '%':
+            return Math.round(size * 11 / 100)
+        default:
+            // px and pt are both taken as Excel points, matching earlier releases
+            return Math.round(size) || undefined
+    }
+}
+
+function parseFontWeight(value: string): 'normal' | 'bold' | undefined {
+    if (value === 'bold' || value === 'bolder') return 'bold'
+    if (value === 'normal' || value === 'lighter') return 'normal'
+
+    const weight = parseInt(value)
+    if (isNaN(weight)) return undefined
+    return weight >= 600 ? 'bold' : 'normal'
+}
+
+function parseFontFamily(value: string): string | undefined {
+    const family = splitTopLevel(value, ',')[0]?.trim().replace(/^["']|["']$/g, '')
+    if (!family) return undefined
+    return GENERIC_FONT_FAMILIES[family.toLowerCase()] || family
+}
+
+/**
+ * font: [style] [weight] size[/line-height] family
+ */
+function applyFontShorthand(value: string, styles: CellStyles) {
+    const parts = splitTopLevel(value, ' ')
+    const sizeIndex = parts.findIndex(part => parseFontSize(part.split('/')[0].toLowerCase()) !== undefined && /\d|small|medium|large/.test(part))
+    if (sizeIndex < 0) return
+
+    parts.slice(0, sizeIndex).forEach(part => {
+        const lowerPart = part.toLowerCase()
+        if (lowerPart === 'italic' || lowerPart === 'oblique') styles.fontStyle = 'italic'
+        const weight = parseFontWeight(lowerPart)
+        if (weight && lowerPart !== 'normal') styles.fontWeight = weight
+    })
+
+    styles.fontSize = parseFontSize(parts[sizeIndex].split('/')[0].toLowerCase())
+    const family = parseFontFamily(parts.slice(sizeIndex + 1).join(' '))
+    if (family) styles.fontFamily = family
+}
+
+/**
+ * Expand 1-4 box values (top, right, bottom, left) as in margin/padding/border shorthands
+ */
+function expandBoxValues(values: string[]): string[] {
+    const [top, right = top, bottom = top, left = right] = values
+    return top === undefined ? [] : [top, right, bottom, left]
+}
+
+function splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = []
+    let depth = 0
+    let quote = ''
+    let current = ''
+
+    for (const char of text) {
+        if (quote) {
+            if (char === quote) quote = ''
+        } else if (char === '"' || char === "'") {
+            quote = char
+        } else if (char === '(') {
+            depth++
+        } else if (char === ')') {
+            depth = Math.max(0, depth - 1)
+        } else if (depth === 0 && (separator === ' ' ? /\s/.test(char) : char === separator)) {
+            if (current.trim()) parts.push(current.trim())
+            current = ''
+            continue
+        }
+        current += char
+    }
+
+    if (current.trim()) parts.push(current.trim())
+    return parts
+}
+
+function parseAlpha(value: string): number {
+    const alpha = value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value)
+    return isNaN(alpha) ? 1 : Math.min(1, Math.max(0, alpha))
+}
+
+function parseHue(value: string): number {
+    const hue = parseFloat(value)
+    if (value.endsWith('turn')) return hue * 360
+    if (value.endsWith('rad')) return hue * 180 / Math.PI
+    if (value.endsWith('grad')) return hue * 0.9
+    return hue
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): number[] {
+    const h = (((hue % 360) + 360) % 360) / 360
+    const s = Math.min(1, Math.max(0, saturation))
+    const l = Math.min(1, Math.max(0, lightness))
+
+    if (s === 0) return [l * 255, l * 255, l * 255]
+
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s
+    const p = 2 * l - q
+    const channel = (t: number) => {
+        if (t < 0) t += 1
+        if (t > 1) t -= 1
+        if (t < 1 / 6) return p + (q - p) * 6 * t
+        if (t < 1 / 2) return q
+        if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6
+        return p
+    }
+
+    return [channel(h + 1 / 3), channel(h), channel(h - 1 / 3)].map(value => value * 255)
+}
+
+/**
+ * Excel colors are opaque, so translucent colors are composited over a white background
+ */
+function blendOnWhite(channels: number[], alpha: number): string | undefined {
+    if (alpha <= 0) return undefined
+
+    return channels
+        .map(channel => Math.round(Math.min(255, Math.max(0, channel)) * alpha + 255 * (1 - alpha)))
+        .map(channel => channel.toString(16).padStart(2, '0'))
+        .join('')
+        .toUpperCase()
+}
@@ -0,0 +1,164 @@
+import * as XLSX from 'xlsx-js-style'
+import type { DataValidation } from './index'
+import { parseOperator } from './conditionalFormat'
+import { escapeXml } from './xlsxPackage'
+
+const VALIDATION_TYPES: DataValidation['type'][] = ['list', 'whole', 'decimal', 'date', 'time', 'textLength', 'custom']
+
+// Excel's limits: inline lists, message titles and message texts
+const MAX_LIST_LENGTH = 255
+const MAX_TITLE_LENGTH = 32
+const MAX_MESSAGE_LENGTH = 255
+
+const OPERATOR_TEXT: { [operator: string]: string } = {
+    between: 'between',
+    notBetween: 'not between',
+    greaterThan: 'greater than',
+    greaterThanOrEqual: 'greater than or equal to',
+    lessThan: 'less than',
+    lessThanOrEqual: 'less than or equal to',
+    equal: 'equal to',
+    notEqual: 'not equal to'
+}
+
+const TYPE_TEXT: { [type: string]: string } = {
+    whole: 'a whole number',
+    decimal: 'a number',
+    date: 'a date',
+    time: 'a time',
+    textLength: 'text with a length'
+}
+
+/**
+ * Parse a data-xlsx-validate attribute
+ *   list Yes, No, Maybe | whole between 1 10 | decimal >= 0 | date < 2025-01-01
+ *   time between 09:00 17:00 | textLength <= 50 | custom "ISNUMBER(B2)"
+ * Values are numbers, ISO dates, times or formulas; a rule that cannot be read gives undefined and a warning
+ */
+export function parseDataValidation(text: string): DataValidation | undefined {
+    const [, typeToken = '', rest = ''] = text.trim().match(/^(\S+)\s*([\s\S]*)$/) || []
+    const type = VALIDATION_TYPES.find(name => name.toLowerCase() === typeToken.toLowerCase())
+    let validation: DataValidation | undefined
+
+    if (type === 'list') {
+        const values = rest.split(',').map(item => item.trim()).filter(Boolean)
+        validation = values.length > 0 ? { type, values } : undefined
+    } else if (type === 'custom') {
+        const formula = unquote(rest.trim())
+        validation = formula ? { type, values: [formula] } : undefined
+    } else if (type) {
+        const tokens = (rest.match(/"[^"]*"|'[^']*'|\S+/g) || []).map(unquote)
+        const operator = parseOperator(tokens.shift())
+        const count = operator === 'between' || operator === 'notBetween' ? 2 : 1
+        validation = operator && tokens.length === count
+            ? { type, operator, values: tokens.map(token => token.trim() !== '' && !isNaN(Number(token)) ? Number(token) : token) }
+            : undefined
+    }
+
+    if (!validation) {
+        console.warn(`⚠️ Unsupported data validation "${text}", skipping it`)
+    }
+    return validation
+}
+
+/**
+ * <dataValidations> of a sheet; cells with the same rule share one <dataValidation>
+ * Lists Excel cannot store inline (over 255 characters, or items holding a comma) are skipped with a warning
+ */
+export function dataValidationsXml(cells: { address: XLSX.CellAddress, validation: DataValidation }[]): string {
+    const groups = new Map<string, { validation: DataValidation, addresses: XLSX.CellAddress[] }>()
+
+    cells.forEach(({ address, validation }) => {
+        const key = JSON.stringify(validation)
+        const group = groups.get(key)
+        if (group) {
+            group.addresses.push(address)
+        } else {
+            groups.set(key, { validation, addresses: [address] })
+        }
+    })
+
+    const elements = Array.from(groups.values()).flatMap(({ validation, addresses }) => {
+        const formulas = validationFormulas(validation)
+        if (!formulas) return []
+
+        const attributes = [
+            `type="${validation.type}"`,
+            validation.error?.style && validation.error.style !== 'stop' ? `errorStyle="${validation.error.style}"` : '',
+            validation.operator && validation.operator !== 'between' && validation.type !== 'list' && validation.type !== 'custom'
+                ? `operator="${validation.operator}"` : '',
+            validation.allowBlank !== false ? 'allowBlank="1"' : '',
+            validation.prompt ? 'showInputMessage="1"' : '',
+            'showErrorMessage="1"',
+            validation.error?.title ? `errorTitle="${escapeXml(validation.error.title.substring(0, MAX_TITLE_LENGTH))}"` : '',
+            `error="${escapeXml((validation.error?.message || defaultErrorMessage(validation)).substring(0, MAX_MESSAGE_LENGTH))}"`,
+            validation.prompt?.title ? `promptTitle="${escapeXml(validation.prompt.title.substring(0, MAX_TITLE_LENGTH))}"` : '',
+            validation.prompt ? `prompt="${escapeXml(validation.prompt.message.substring(0, MAX_MESSAGE_LENGTH))}"` : '',
+            `sqref="${cellRanges(addresses)}"`
+        ].filter(Boolean)
+
+        return [`<dataValidation ${attributes.join(' ')}>${formulas}</dataValidation>`]
+    })
+
+    return elements.length > 0 ? `<dataValidations count="${elements.length}">${elements.join('')}</dataValidations>` : ''
+}
+
+function validationFormulas(validation: DataValidation): string | undefined {
+    if (validation.type === 'list') {
+        const list = validation.values.map(String)
+        const joined = list.join(',')
+        if (joined.length > MAX_LIST_LENGTH || list.some(item => item.includes(','))) {
+            console.warn(`⚠️ Dropdown list "${joined.substring(0, 40)}..." cannot be stored inline (255 characters, no commas), skipping it`)
+            return undefined
+        }
+        return `<formula1>${escapeXml(`"${joined.replace(/"/g, '""')}"`)}</formula1>`
+    }
+
+    return validation.values.slice(0, 2)
+        .map((value, index) => `<formula${index + 1}>${escapeXml(valueFormula(value))}</formula${index + 1}>`).join('')
+}
+
+// Numbers as is, ISO dates and times as DATE()/TIME(), anything else is a formula
+function valueFormula(value: string | number): string {
+    if (typeof value === 'number') return String(value)
+
+    const date = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+    if (date) return `DATE(${date.slice(1).map(Number).join(',')})`
+
+    const time = value.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/)
+    if (time) return `TIME(${time.slice(1).map(part => Number(part || 0)).join(',')})`
+
+    return value.replace(/^=/, '')
+}
+
+function defaultErrorMessage(validation: DataValidation): string {
+    if (validation.type === 'list') return 'Choose a value from the list'
+    if (validation.type === 'custom') return 'The value is not valid'
+
+    const operator = validation.operator || 'between'
+    const bounds = operator === 'between' || operator === 'notBetween'
+        ? `${validation.values[0]} and ${validation.values[1]}`
+        : `${validation.values[0]}`
+    return `Enter ${TYPE_TEXT[validation.type]} ${OPERATOR_TEXT[operator]} ${bounds}`
+}
+
+// Cells as ranges: consecutive rows of a column are joined (B2:B40)
+function cellRanges(addresses: XLSX.CellAddress[]): string {
+    const sorted = [...addresses].sort((a, b) => a.c - b.c || a.r - b.r)
+    const ranges: XLSX.Range[] = []
+
+    sorted.forEach(address => {
+        const last = ranges[ranges.length - 1]
+        if (last && last.e.c === address.c && last.e.r + 1 >= address.r) {
+            last.e.r = Math.max(last.e.r, address.r)
+        } else {
+            ranges.push({ s: { ...address }, e: { ...address } })
+        }
+    })
+
+    return ranges.map(range => range.s.r === range.e.r ? XLSX.utils.encode_cell(range.s) : XLSX.utils.encode_range(range)).join(' ')
+}
+
+function unquote(token: string): string {
+    return /^(["']).*\1$/.test(token) ? token.slice(1, -1) : token
+}
@@ -0,0 +1,75 @@
+import type { DocumentProperties } from './index'
+import { escapeXml } from './xlsxPackage'
+
+export const CORE_PROPERTIES_CONTENT_TYPE = 'application/vnd.openxmlformats-package.core-properties+xml'
+export const APP_PROPERTIES_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.extended-properties+xml'
+export const CUSTOM_PROPERTIES_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.custom-properties+xml'
+export const CORE_PROPERTIES_RELATIONSHIP = 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties'
+export const APP_PROPERTIES_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties'
+export const CUSTOM_PROPERTIES_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/custom-properties'
+
+// Format id every user-defined property carries
+const CUSTOM_FMTID = '{D5CDD505-2E9C-101B-9397-08002B2CF9AE}'
+
+/**
+ * Keywords as the single comma-separated text Excel shows
+ */
+export function keywordsText(keywords: DocumentProperties['keywords']): string | undefined {
+    return Array.isArray(keywords) ? keywords.join(', ') : keywords
+}
+
+/**
+ * Core properties part (docProps/core.xml): title, subject, author, keywords, description and creation time
+ */
+export function corePropertiesXml(properties: DocumentProperties): string {
+    const keywords = keywordsText(properties.keywords)
+    const elements = [
+        properties.title ? `<dc:title>${escapeXml(properties.title)}</dc:title>` : '',
+        properties.subject ? `<dc:subject>${escapeXml(properties.subject)}</dc:subject>` : '',
+        properties.author ? `<dc:creator>${escapeXml(properties.author)}</dc:creator>` : '',
+        keywords ? `<cp:keywords>${escapeXml(keywords)}</cp:keywords>` : '',
+        properties.description ? `<dc:description>${escapeXml(properties.description)}</dc:description>` : '',
+        properties.created ? `<dcterms:created xsi:type="dcterms:W3CDTF">${w3cDate(properties.created)}</dcterms:created>` : ''
+    ].join('')
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+        'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+        `xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">${elements}</cp:coreProperties>`
+}
+
+/**
+ * Extended properties part (docProps/app.xml), which holds the company
+ */
+export function appPropertiesXml(properties: DocumentProperties): string {
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">' +
+        `${properties.company ? `<Company>${escapeXml(properties.company)}</Company>` : ''}</Properties>`
+}
+
+/**
+ * Custom properties part (docProps/custom.xml); numbers are written as integers or doubles, dates as file times
+ */
+export function customPropertiesXml(custom: NonNullable<DocumentProperties['custom']>): string {
+    const properties = Object.entries(custom).map(([name, value], index) =>
+        // Property ids 0 and 1 are reserved
+        `<property fmtid="${CUSTOM_FMTID}" pid="${index + 2}" name="${escapeXml(name)}">${variantXml(value)}</property>`).join('')
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/custom-properties" ' +
+        `xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes">${properties}</Properties>`
+}
+
+function variantXml(value: string | number | boolean | Date): string {
+    if (value instanceof Date) return `<vt:filetime>${w3cDate(value)}</vt:filetime>`
+    if (typeof value === 'boolean') return `<vt:bool>${value}</vt:bool>`
+    if (typeof value === 'number') {
+        return Number.isInteger(value) && Math.abs(value) < 2 ** 31 ? `<vt:i4>${value}</vt:i4>` : `<vt:r8>${value}</vt:r8>`
+    }
+    return `<vt:lpwstr>${escapeXml(value)}</vt:lpwstr>`
+}
+
+// 2024-03-01T09:30:00Z: Office reads W3C dates without milliseconds
+function w3cDate(date: Date): string {
+    return date.toISOString().replace(/\.\d{3}Z$/, 'Z')
+}
@@ -0,0 +1,254 @@
+import { Parser } from 'htmlparser2'
+import { StringDecoder } from 'string_decoder'
+import { Transform, Writable, type TransformCallback } from 'stream'
+import type { TableStreamProcessor } from './index'
+
+export type TableSection = 'thead' | 'tbody' | 'tfoot'
+
+export interface TableTokenizerHandlers {
+    // A top-level <table> opened; `tableTag` is its opening tag
+    onTableStart: (tableTag: string) => void
+    // <caption>, <colgroup> or <col> of the current table
+    onTablePart: (html: string) => void
+    // A complete <tr> of the current table (nested tables stay inside their cell)
+    onRow: (rowHtml: string, section: TableSection | undefined, headerOnly: boolean) => void
+    onTableEnd: () => void
+}
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'])
+const CAPTURED_PARTS = new Set(['tr', 'caption', 'colgroup', 'col'])
+
+/**
+ * SAX-style tokenizer that turns an HTML text stream into table rows as their </tr> is reached
+ * Only the element being captured (a row, caption or colgroup) is held in memory
+ */
+export class HtmlTableTokenizer {
+    // Text of every <style> block seen so far
+    readonly styleSheets: string[] = []
+    // <title> and <meta> tags outside the tables, which hold the document properties
+    readonly headTags: string[] = []
+
+    private readonly parser: Parser
+    private tableDepth = 0
+    private section?: TableSection
+    private capture?: { name: string, html: string[], headerCells: number, dataCells: number }
+    private styleText?: string[]
+    private titleText?: string[]
+
+    constructor(private readonly handlers: TableTokenizerHandlers) {
+        this.parser = new Parser({
+            onopentag: (name, attribs) => this.openTag(name, attribs),
+            ontext: text => this.text(text),
+            onclosetag: name => this.closeTag(name)
+        }, { decodeEntities: false })
+    }
+
+    write(text: string) {
+        this.parser.write(text)
+    }
+
+    end() {
+        this.parser.end()
+    }
+
+    private openTag(name: string, attribs: { [name: string]: string }) {
+        const tag = `<${name}${Object.entries(attribs).map(([key, value]) => ` ${key}="${value.replace(/"/g, '&quot;')}"`).join('')}>`
+
+        if (name === 'style') {
+            this.styleText = []
+        }
+        if (this.tableDepth === 0 && name === 'title') {
+            this.titleText = []
+        } else if (this.tableDepth === 0 && name === 'meta') {
+            this.headTags.push(tag)
+        }
+
+        if (this.capture) {
+            this.capture.html.push(tag)
+            if (name === 'table') this.tableDepth++
+            if (this.tableDepth === 1 && name === 'th') this.capture.headerCells++
+            if (this.tableDepth === 1 && name === 'td') this.capture.dataCells++
+            return
+        }
+
+        if (name === 'table') {
+            this.tableDepth++
+            if (this.tableDepth === 1) {
+                this.section = undefined
+                this.handlers.onTableStart(tag)
+            }
+            return
+        }
+
+        if (this.tableDepth !== 1) return
+
+        if (name === 'thead' || name === 'tbody' || name === 'tfoot') {
+            this.section = name
+        } else if (CAPTURED_PARTS.has(name)) {
+            this.capture = { name, html: [tag], headerCells: 0, dataCells: 0 }
+            if (VOID_ELEMENTS.has(name)) this.endCapture()
+        }
+    }
+
+    private text(text: string) {
+        this.styleText?.push(text)
+        this.titleText?.push(text)
+        this.capture?.html.push(text)
+    }
+
+    private closeTag(name: string) {
+        if (name === 'style' && this.styleText) {
+            this.styleSheets.push(this.styleText.join(''))
+            this.styleText = undefined
+        }
+        if (name === 'title' && this.titleText) {
+            this.headTags.push(`<title>${this.titleText.join('')}</title>`)
+            this.titleText = undefined
+        }
+
+        const capture = this.capture
+        if (capture) {
+            if (!VOID_ELEMENTS.has(name)) capture.html.push(`</${name}>`)
+            if (name === 'table') {
+                this.tableDepth--
+            } else if (name === capture.name && this.tableDepth === 1) {
+                this.endCapture()
+            }
+            return
+        }
+
+        if (name === 'table' && this.tableDepth > 0) {
+            this.tableDepth--
+            if (this.tableDepth === 0) this.handlers.onTableEnd()
+        } else if (this.tableDepth === 1 && name === this.section) {
+            this.section = undefined
+        }
+    }
+
+    private endCapture() {
+        const capture = this.capture
+        if (!capture) return
+        this.capture = undefined
+
+        const html = capture.html.join('')
+        if (capture.name === 'tr') {
+            this.handlers.onRow(html, this.section, capture.headerCells > 0 && capture.dataCells === 0)
+        } else {
+            this.handlers.onTablePart(html)
+        }
+    }
+}
+
+/**
+ * Transform from an HTML byte/text stream to XLSX bytes
+ * Every top-level table becomes a worksheet: rows in <thead> (or, without one, the leading rows made of
+ * <th> cells only) form its header, all other rows are written as soon as they close.
+ * Input is only consumed as fast as the XLSX output is read
+ */
+export class XlsxConvertStream extends Transform {
+    private readonly decoder = new StringDecoder('utf8')
+    private readonly tokenizer: HtmlTableTokenizer
+    private readonly processor: TableStreamProcessor
+    private pendingOutput?: () => void
+    private needsDrain = false
+    private tables = 0
+
+    // Header of the current table, written before its first body row
+    private tableTag = '<table>'
+    private tableParts: string[] = []
+    private headerRows: string[] = []
+    private headerWritten = false
+
+    constructor(createProcessor: (output: Writable) => TableStreamProcessor) {
+        super()
+
+        const output = new Writable({
+            write: (chunk, _encoding, callback) => {
+                if (this.push(chunk)) {
+                    callback()
+                } else {
+                    this.pendingOutput = callback
+                }
+            }
+        })
+        this.processor = createProcessor(output)
+
+        this.tokenizer = new HtmlTableTokenizer({
+            onTableStart: tableTag => {
+                this.tables++
+                this.tableTag = tableTag
+                this.tableParts = []
+                this.headerRows = []
+                this.headerWritten = false
+                this.processor.startSheet()
+            },
+            onTablePart: html => {
+                this.tableParts.push(html)
+            },
+            onRow: (rowHtml, section, headerOnly) => {
+                if (!this.headerWritten && (section === 'thead' || (!section || section === 'tbody') && headerOnly)) {
+                    this.headerRows.push(rowHtml)
+                    return
+                }
+                this.writeHeader()
+                this.track(this.processor.writeRow(rowHtml))
+            },
+            onTableEnd: () => this.writeHeader()
+        })
+    }
+
+    _transform(chunk: Buffer | string, _encoding: BufferEncoding, callback: TransformCallback) {
+        try {
+            this.tokenizer.write(typeof chunk === 'string' ? chunk : this.decoder.write(chunk))
+        } catch (error) {
+            callback(error as Error)
+            return
+        }
+        this.afterWrite(callback)
+    }
+
+    _flush(callback: TransformCallback) {
+        try {
+            this.tokenizer.write(this.decoder.end())
+            this.tokenizer.end()
+            if (this.tables === 0) {
+                throw new Error('No table found in HTML')
+            }
+        } catch (error) {
+            callback(error as Error)
+            return
+        }
+
+        this.processor.finalize().then(() => callback(), callback)
+    }
+
+    _read(size: number) {
+        // The consumer wants more: release the XLSX writer held back by push() returning false
+        const pendingOutput = this.pendingOutput
+        this.pendingOutput = undefined
+        pendingOutput?.()
+        super._read(size)
+    }
+
+    private writeHeader() {
+        if (this.headerWritten) return
+        this.headerWritten = true
+
+        const styles = this.tokenizer.styleSheets.map(css => `<style>${css}</style>`).join('')
+        this.track(this.processor.writeHeader(`${this.tokenizer.headTags.join('')}${styles}${this.tableTag}${this.tableParts.join('')}<thead>${this.headerRows.join('')}</thead></table>`))
+    }
+
+    private track(writable: boolean) {
+        this.needsDrain = this.needsDrain || !writable
+    }
+
+    private afterWrite(callback: TransformCallback) {
+        if (!this.needsDrain) {
+            callback()
+            return
+        }
+
+        this.needsDrain = false
+        this.processor.drain().then(() => callback(), callback)
+    }
+}
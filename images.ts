@@ -0,0 +1,171 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { fileURLToPath } from 'url'
+import * as XLSX from 'xlsx-js-style'
+import type { CellImage, ImageFormat } from './index'
+import { escapeXml } from './xlsxPackage'
+
+export const DRAWING_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.drawing+xml'
+export const DRAWING_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/drawing'
+const IMAGE_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image'
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships'
+
+export const IMAGE_CONTENT_TYPES: { [format in ImageFormat]: string } = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif'
+}
+
+// Largest local image file read; bigger files are skipped
+const MAX_IMAGE_FILE_BYTES = 10 * 1024 * 1024
+
+// DrawingML lengths are in EMUs: 9525 per pixel at 96 dpi
+const EMU_PER_PX = 9525
+
+export interface SheetImage {
+    address: XLSX.CellAddress
+    image: CellImage
+}
+
+/**
+ * Read the image an <img> src points to: a data: URI, or a local path or file: URL resolved against `baseDir`
+ * Local files are only read with a `baseDir`, and only regular files inside it (after following links)
+ * Remote URLs are never fetched; they, unreadable files and formats other than PNG, JPEG and GIF give undefined and a warning
+ */
+export function loadImage(src: string, baseDir?: string): { data: Buffer, format: ImageFormat, width: number, height: number } | undefined {
+    let data: Buffer | undefined
+
+    const dataUri = src.match(/^data:([^,]*),([\s\S]*)$/i)
+    if (dataUri) {
+        data = /;base64$/i.test(dataUri[1])
+            ? Buffer.from(dataUri[2], 'base64')
+            : Buffer.from(decodeURIComponent(dataUri[2]), 'binary')
+    } else if (/^(?:[a-z][a-z0-9+.-]+:)?\/\//i.test(src) && !/^file:/i.test(src)) {
+        console.warn(`⚠️ Image "${src}" is not a data: URI or local file, skipping it`)
+        return undefined
+    } else if (!baseDir) {
+        console.warn(`⚠️ Image "${src}" is a local file, which is only read with images.baseDir, skipping it`)
+        return undefined
+    } else {
+        data = readLocalImage(src, baseDir)
+        if (!data) return undefined
+    }
+
+    const size = imageSize(data)
+    if (!size) {
+        console.warn(`⚠️ Image "${src.substring(0, 40)}" is not a PNG, JPEG or GIF image, skipping it`)
+        return undefined
+    }
+    return { data, ...size }
+}
+
+/**
+ * Drawing part of a sheet placing each image at the top-left corner of its cell, with the part's relationships
+ * @param mediaPath Path of the media part holding an image (xl/media/image1.png)
+ */
+export function drawingParts(images: SheetImage[], mediaPath: (image: CellImage) => string): { drawing: string, relationships: string } {
+    const targets: string[] = []
+
+    const anchors = images.map(({ address, image }, index) => {
+        const target = `../media/${path.posix.basename(mediaPath(image))}`
+        if (!targets.includes(target)) targets.push(target)
+
+        const ext = `cx="${Math.round(image.width * EMU_PER_PX)}" cy="${Math.round(image.height * EMU_PER_PX)}"`
+        return `<xdr:oneCellAnchor><xdr:from><xdr:col>${address.c}</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>${address.r}</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:from>` +
+            `<xdr:ext ${ext}/><xdr:pic><xdr:nvPicPr><xdr:cNvPr id="${index + 2}" name="Picture ${index + 1}" descr="${escapeXml(image.alt || '')}"/>` +
+            '<xdr:cNvPicPr><a:picLocks noChangeAspect="1"/></xdr:cNvPicPr></xdr:nvPicPr>' +
+            `<xdr:blipFill><a:blip r:embed="rId${targets.indexOf(target) + 1}"/><a:stretch><a:fillRect/></a:stretch></xdr:blipFill>` +
+            `<xdr:spPr><a:xfrm><a:off x="0" y="0"/><a:ext ${ext}/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></xdr:spPr>` +
+            '</xdr:pic><xdr:clientData/></xdr:oneCellAnchor>'
+    }).join('')
+
+    return {
+        drawing: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+            '<xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing" ' +
+            'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+            `xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">${anchors}</xdr:wsDr>`,
+        relationships: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+            `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+            targets.map((target, index) => `<Relationship Id="rId${index + 1}" Type="${IMAGE_RELATIONSHIP}" Target="${target}"/>`).join('') +
+            '</Relationships>'
+    }
+}
+
+/**
+ * Media parts of a workbook; an image used in several cells (status icons) is stored once
+ */
+export class MediaStore {
+    private readonly paths = new Map<string, string>()
+    readonly formats = new Set<ImageFormat>()
+
+    /**
+     * @param write Writes a new media part to the package
+     */
+    constructor(private readonly write: (path: string, data: Buffer) => void) { }
+
+    path(image: CellImage): string {
+        const key = `${image.format}:${image.data.toString('base64')}`
+        let mediaPath = this.paths.get(key)
+        if (!mediaPath) {
+            mediaPath = `xl/media/image${this.paths.size + 1}.${image.format}`
+            this.paths.set(key, mediaPath)
+            this.formats.add(image.format)
+            this.write(mediaPath, image.data)
+        }
+        return mediaPath
+    }
+}
+
+// Contents of a regular file of at most MAX_IMAGE_FILE_BYTES inside baseDir
+function readLocalImage(src: string, baseDir: string): Buffer | undefined {
+    let file: string
+    try {
+        const resolved = /^file:/i.test(src) ? fileURLToPath(src) : path.resolve(baseDir, decodeURI(src.replace(/[?#].*$/, '')))
+        file = fs.realpathSync(resolved)
+        const relative = path.relative(fs.realpathSync(baseDir), file)
+        if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+            console.warn(`⚠️ Image file "${src}" is outside images.baseDir, skipping it`)
+            return undefined
+        }
+    } catch {
+        console.warn(`⚠️ Image file "${src}" cannot be found, skipping it`)
+        return undefined
+    }
+
+    try {
+        const stats = fs.statSync(file)
+        if (!stats.isFile() || stats.size > MAX_IMAGE_FILE_BYTES) {
+            console.warn(`⚠️ Image file "${file}" is not a file of at most ${MAX_IMAGE_FILE_BYTES} bytes, skipping it`)
+            return undefined
+        }
+        return fs.readFileSync(file)
+    } catch {
+        console.warn(`⚠️ Image file "${file}" cannot be read, skipping it`)
+        return undefined
+    }
+}
+
+// Format and pixel size from the image header
+function imageSize(data: Buffer): { format: ImageFormat, width: number, height: number } | undefined {
+    if (data.length >= 24 && data.readUInt32BE(0) === 0x89504E47) {
+        return { format: 'png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) }
+    }
+
+    if (data.length >= 10 && data.toString('ascii', 0, 3) === 'GIF') {
+        return { format: 'gif', width: data.readUInt16LE(6), height: data.readUInt16LE(8) }
+    }
+
+    if (data.length >= 4 && data[0] === 0xFF && data[1] === 0xD8) {
+        // Walk the segments to the frame header (SOF0-SOF15, except DHT, JPG and DAC)
+        let offset = 2
+        while (offset + 9 < data.length && data[offset] === 0xFF) {
+            const marker = data[offset + 1]
+            if (marker >= 0xC0 && marker <= 0xCF && ![0xC4, 0xC8, 0xCC].includes(marker)) {
+                return { format: 'jpeg', width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) }
+            }
+            offset += 2 + data.readUInt16BE(offset + 2)
+        }
+    }
+
+    return undefined
+}
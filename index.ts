@@ -1,81 +1,529 @@
+import * as fs from 'fs'
+import { Writable, type Transform } from 'stream'
 import * as cheerio from 'cheerio'
 import * as XLSX from 'xlsx-js-style'
+import { XlsxPackage, appendSheetProperties, frozenSheetViewXml, insertSheetElement, outlineSummaries, replaceCells, richTextXml } from './xlsxPackage'
+import { XlsxStreamWriter, type StreamCell, type StreamSheetOptions } from './xlsxStreamWriter'
+import { XlsxConvertStream } from './htmlStream'
+import { renderWorkbookHtml } from './xlsxHtml'
+import { classStyles } from './classMaps'
+import { StyleCascade, applyDeclarations, parseStyleSheet, type CssDeclaration, type CssRule } from './css'
+import { conditionalFormatRanges, conditionalFormattingXml, dxfXml, parseConditionalFormats } from './conditionalFormat'
+import { dataValidationsXml, parseDataValidation } from './dataValidation'
+import { DRAWING_CONTENT_TYPE, DRAWING_RELATIONSHIP, IMAGE_CONTENT_TYPES, MediaStore, drawingParts, loadImage, type SheetImage } from './images'
+import { COMMENTS_CONTENT_TYPE, COMMENTS_RELATIONSHIP, DEFAULT_NOTE_SIZE, VML_CONTENT_TYPE, VML_RELATIONSHIP, commentsXml, vmlDrawingXml, type SheetNote } from './comments'
+import { keywordsText } from './documentProperties'
+import { fitsToPage, pageMargins, pageSetupXml, printTitlesRef, rowBreaksXml } from './pageSetup'
+import { cellFormats, replaceCellFormats, sheetProtectionXml, unlockedFormatXml } from './protection'
+import { DEFAULT_COLUMN_PX, DEFAULT_ROW_PX, DEFAULT_TABLE_WIDTH_PX, autoColumnWidth, autoRowHeight, columnWidthToPixels, parseSize, pixelsToColumnWidth, pixelsToPoints, textWidth, type MeasuredCell, type TextFont } from './sizing'
 
 export interface TableCell {
     content: string
     colspan: number
     rowspan: number
     isHeader: boolean
-    // Enhanced styling properties
+    // Typed value written to the sheet instead of `content` (dates are Excel serial numbers)
+    value?: string | number | boolean
+    type?: CellValueType
+    numberFormat?: string
+    // Excel formula (without "="), may contain layout references such as {above} or {#id}
+    formula?: string
+    // Element id, used to resolve {#id} formula references
+    id?: string
+    // Hyperlink from an <a href> in the cell: URL, mailto: or internal #Sheet!A1 / #id
+    hyperlink?: {
+        target: string
+        tooltip?: string
+    }
+    // Mixed formatting inside the cell (<b>, <i>, <u>, <s>, <sup>, <sub>, colored <span>)
+    richText?: RichTextRun[]
+    // Width in characters from the width attribute or CSS width/min-width; sizes the column when in a header row
+    width?: number
+    // data-xlsx-hidden: hides the column when in a header row
+    hidden?: boolean
+    // Dropdown list of a <select>, bounds of an <input>, or data-xlsx-validate
+    validation?: DataValidation
+    // Note from data-xlsx-comment or the title attribute, and the <abbr title> elements inside the cell
+    comment?: CellComment
+    // First <img> of the cell with a data: URI or local file, drawn over the cell
+    image?: CellImage
+    // false leaves the cell editable on a protected sheet (data-xlsx-locked="false", contenteditable or a form control)
+    locked?: boolean
+    // Enhanced styling properties (colors are RRGGBB)
     styles?: {
         backgroundColor?: string
-        textAlign?: 'left' | 'center' | 'right'
+        textAlign?: 'left' | 'center' | 'right' | 'justify'
+        verticalAlign?: 'top' | 'center' | 'bottom'
         fontSize?: number
         fontWeight?: 'normal' | 'bold'
+        fontStyle?: 'normal' | 'italic'
+        fontFamily?: string
+        underline?: boolean
+        strike?: boolean
         color?: string
+        // Applies to all four sides unless a side sets its own
         borderColor?: string
-        borderStyle?: 'thin' | 'medium' | 'thick' | 'none'
+        borderStyle?: BorderStyle
+        borderTop?: BorderSide
+        borderRight?: BorderSide
+        borderBottom?: BorderSide
+        borderLeft?: BorderSide
+        // white-space: nowrap/pre turns wrapping off
+        wrapText?: boolean
+        // Indent level, from padding-left
+        indent?: number
     }
 }
 
+export type BorderStyle = 'none' | 'thin' | 'medium' | 'thick' | 'hair' | 'dashed' | 'mediumDashed' | 'dotted' | 'mediumDashDotDot' | 'double'
+
+export interface BorderSide {
+    style?: BorderStyle
+    color?: string
+}
+
+export type CellValueType = 'string' | 'number' | 'boolean' | 'date'
+
+export interface RichTextRun {
+    text: string
+    bold?: boolean
+    italic?: boolean
+    underline?: boolean
+    strike?: boolean
+    vertAlign?: 'superscript' | 'subscript'
+    color?: string
+}
+
 export interface TableRow {
     cells: TableCell[]
+    // Height in points from the height attribute or CSS height/min-height
+    height?: number
+    // Written as a hidden row (data-xlsx-hidden)
+    hidden?: boolean
+    // Outline level, 1 to 7 (data-xlsx-level, or aria-level minus one)
+    level?: number
+    // Printing starts a new page at this row (page-break-before: always)
+    pageBreak?: boolean
 }
 
 export interface TableData {
     rows: TableRow[]
     maxCols: number
+    // Worksheet name (from data-sheet-name, <caption> or SheetN)
+    name?: string
+    // Column widths in characters (<col> and header cell widths); missing entries are measured from the content
+    columnWidths?: (number | undefined)[]
+    // Leading rows that form the header (<thead> or rows of <th> cells)
+    headerRows?: number
+    // Zero-based columns written hidden (data-xlsx-hidden on <col> or a header cell)
+    hiddenColumns?: number[]
+    // Outline level of each column (data-xlsx-level on <col>)
+    columnLevels?: number[]
+    // Conditional formats over the data rows (data-xlsx-cf on <table> and <col>)
+    conditionalFormats?: ConditionalFormatRule[]
+}
+
+export type ConditionalFormat =
+    | { type: 'cellIs', operator: CellIsOperator, values: (string | number)[], style: ConditionalStyle }
+    // Formula relative to the first data cell of the range, e.g. "$B2>$C2"
+    | { type: 'expression', formula: string, style: ConditionalStyle }
+    // Lowest to highest value; three colors add a midpoint at the 50th percentile
+    | { type: 'colorScale', colors: string[] }
+    | { type: 'dataBar', color: string }
+    | { type: 'iconSet', iconSet: IconSetName, reverse?: boolean }
+
+export type CellIsOperator = 'greaterThan' | 'greaterThanOrEqual' | 'lessThan' | 'lessThanOrEqual' | 'equal' | 'notEqual' | 'between' | 'notBetween'
+
+export type IconSetName = '3Arrows' | '3ArrowsGray' | '3Flags' | '3TrafficLights1' | '3TrafficLights2' | '3Signs' | '3Symbols' | '3Symbols2' |
+    '4Arrows' | '4ArrowsGray' | '4RedToBlack' | '4Rating' | '4TrafficLights' | '5Arrows' | '5ArrowsGray' | '5Rating' | '5Quarters'
+
+// Formatting applied while a cellIs/expression rule holds (colors are RRGGBB)
+export interface ConditionalStyle {
+    fill?: string
+    color?: string
+    bold?: boolean
+    italic?: boolean
+    underline?: boolean
+    strike?: boolean
+}
+
+export type ImageFormat = 'png' | 'jpeg' | 'gif'
+
+export interface CellImage {
+    data: Buffer
+    format: ImageFormat
+    // Displayed size in pixels
+    width: number
+    height: number
+    // Written as the cell value in formats without images (csv, ods, ...)
+    alt?: string
+}
+
+export interface CellComment {
+    text: string
+    author?: string
+}
+
+export interface DataValidation {
+    type: 'list' | 'whole' | 'decimal' | 'date' | 'time' | 'textLength' | 'custom'
+    // Items of a list, bounds compared with `operator` (numbers, ISO dates, HH:MM times or formulas), or a custom formula
+    values: (string | number)[]
+    // @default 'between'
+    operator?: CellIsOperator
+    // Empty cells are valid; false for required form fields
+    allowBlank?: boolean
+    // Input message shown while the cell is selected
+    prompt?: { title?: string, message: string }
+    // Alert for invalid entries; the message describes the rule unless given
+    error?: { title?: string, message?: string, style?: 'stop' | 'warning' | 'information' }
+}
+
+export interface ConditionalFormatRule {
+    format: ConditionalFormat
+    // Zero-based column; the rule covers every column when undefined
+    column?: number
+}
+
+export type PaperSize = 'letter' | 'legal' | 'tabloid' | 'a3' | 'a4' | 'a5'
+
+// Centered text, or the text of each section; {page}, {pages}, {date}, {time} and {sheet} print as fields
+export type HeaderFooterText = string | { left?: string, center?: string, right?: string }
+
+export interface PageSetup {
+    orientation?: 'portrait' | 'landscape'
+    // Paper name or Excel paper size code
+    paperSize?: PaperSize | number
+    // Inches; Excel's defaults for the ones left out (0.7 left and right, 0.75 top and bottom, 0.3 header and footer)
+    margins?: { top?: number, bottom?: number, left?: number, right?: number, header?: number, footer?: number }
+    // Percent, 10 to 400
+    scale?: number
+    // Shrink the columns onto one page wide, or onto this many pages; replaces `scale`
+    fitToWidth?: boolean | number
+    centerHorizontally?: boolean
+    // Repeat the header rows at the top of every printed page (default true)
+    printTitles?: boolean
+    header?: HeaderFooterText
+    footer?: HeaderFooterText
+}
+
+export type ProtectionAction = 'selectLockedCells' | 'selectUnlockedCells' | 'formatCells' | 'formatColumns' | 'formatRows' |
+    'insertColumns' | 'insertRows' | 'insertHyperlinks' | 'deleteColumns' | 'deleteRows' | 'sort' | 'autoFilter' | 'pivotTables' |
+    'objects' | 'scenarios'
+
+export interface SheetProtection {
+    // Asked for before unprotecting; Excel's legacy hash only keeps honest users out
+    password?: string
+    // Actions still allowed (default: selecting locked and unlocked cells)
+    allow?: ProtectionAction[]
+}
+
+// Document properties shown in Excel's File > Info and indexed by document management systems
+export interface DocumentProperties {
+    title?: string
+    subject?: string
+    author?: string
+    company?: string
+    // Comma-separated text, or a list joined with commas
+    keywords?: string | string[]
+    description?: string
+    // Defaults to the time the workbook is written
+    created?: Date
+    // Named custom properties (File > Properties > Custom)
+    custom?: { [name: string]: string | number | boolean | Date }
+}
+
+export interface ConvertOptions {
+    /**
+     * Infer numbers, currencies, percentages, ISO dates and booleans from cell text
+     * Ambiguous values (leading zeros, long digit strings, locale dates) stay text
+     * @default true
+     */
+    inferTypes?: boolean
+    /**
+     * Which anchor becomes the cell hyperlink when a cell holds several links
+     * @default 'first'
+     */
+    hyperlinks?: 'first' | 'last' | 'none'
+    /**
+     * Extra style sheet applied after the document's <style> blocks
+     */
+    css?: string
+    /**
+     * Styles for class names, looked up before the built-in classes (text-left, font-bold, ...)
+     * Spread bootstrapClassMap / tailwindClassMap into it to use a preset
+     */
+    classMap?: ClassMap
+    /**
+     * File format written; must match the extension of the output path when both are given
+     * @default the output path's extension, or 'xlsx'
+     */
+    outputFormat?: OutputFormat
+    /**
+     * Settings of csv/tsv output
+     */
+    csv?: CsvOptions
+    /**
+     * Keep the header rows (<thead>, or the leading rows of <th> cells) visible while scrolling
+     * `rows` replaces the detected header height, `columns` also freezes leading columns
+     * @default false
+     */
+    freezePanes?: boolean | { rows?: number, columns?: number }
+    /**
+     * AutoFilter over the last header row and all data rows; a range such as "A2:F100" replaces it
+     * @default false
+     */
+    autoFilter?: boolean | string
+    /**
+     * Conditional formats over the data rows, keyed by header text (of the last header row),
+     * column letter, or '*' for the whole table; added after the ones declared with data-xlsx-cf
+     */
+    conditionalFormats?: { [column: string]: string | ConditionalFormat | (string | ConditionalFormat)[] }
+    /**
+     * Cell notes: default author and note box size in pixels, or false to leave the notes out
+     * @default { width: 144, height: 80 }
+     */
+    comments?: false | { author?: string, width?: number, height?: number }
+    /**
+     * Images of <img> elements: the directory local files are read from, or false to leave them out
+     * Only data: URIs and, with a baseDir, files inside it are read; remote images are never fetched
+     * @default {} (data: URIs only)
+     */
+    images?: false | { baseDir?: string }
+    /**
+     * Row and column outlines (data-xlsx-level): groups collapsed when opened, and where the summary row
+     * or column of a group sits; the defaults follow tree tables, where a parent comes before its children
+     * @default { collapsed: false, summaryRows: 'above', summaryColumns: 'left' }
+     */
+    outline?: { collapsed?: boolean, summaryRows?: 'above' | 'below', summaryColumns?: 'left' | 'right' }
+    /**
+     * Print settings: orientation, paper size, margins, scaling, header and footer,
+     * and the header rows repeated on every printed page
+     */
+    page?: PageSetup
+    /**
+     * Document properties; converted HTML documents default to their <title> and
+     * <meta name="author|description|keywords">, which the properties given here replace
+     */
+    properties?: DocumentProperties
+    /**
+     * Protect every sheet: only cells left unlocked (data-xlsx-locked="false", contenteditable cells and
+     * cells with a form control) can be edited, plus the allowed actions
+     * @default false
+     */
+    protection?: boolean | SheetProtection
+}
+
+export type ClassMap = { [className: string]: TableCell['styles'] }
+
+// ods, xlsb and xls keep values, merges and formulas but not cell styles
+export type OutputFormat = 'xlsx' | 'csv' | 'tsv' | 'ods' | 'xlsb' | 'xls'
+
+export interface CsvOptions {
+    /**
+     * Worksheet written (delimited text holds one), by name or zero-based index
+     * @default 0
+     */
+    sheet?: string | number
+    /**
+     * Cells covered by a merge: left blank, or repeating the merged value
+     * @default 'blank'
+     */
+    mergedCells?: 'blank' | 'repeat'
+    /**
+     * @default ',' for csv, tab for tsv
+     */
+    delimiter?: string
+    /**
+     * 'auto' quotes fields holding the delimiter, quotes, line breaks or surrounding spaces; 'always' quotes every field
+     * @default 'auto'
+     */
+    quote?: 'auto' | 'always'
+    /**
+     * Start with a UTF-8 byte order mark (lets Excel detect the encoding)
+     * @default false
+     */
+    bom?: boolean
+    /**
+     * @default '\n'
+     */
+    lineEnding?: '\n' | '\r\n'
+}
+
+export interface ColumnDefinition<Row = any> {
+    // Header text
+    header: string
+    // Sub-columns: the header becomes a group spanning them
+    columns?: ColumnDefinition<Row>[]
+    // Property holding the value; dots reach into nested objects ("address.city")
+    key?: string
+    // Computes the value from the row, instead of `key`
+    accessor?: (row: Row, index: number) => unknown
+    // Type string values are read as; numbers, booleans and Dates are typed already
+    type?: CellValueType
+    // Excel number format of the values
+    format?: string
+    // Width in characters; measured from the content otherwise
+    width?: number
+    // Styles of the values, or a function of the value and its row
+    style?: TableCell['styles'] | ((value: unknown, row: Row) => TableCell['styles'])
+    // Styles of the header cell, on top of the default bold font
+    headerStyle?: TableCell['styles']
+    // Rule for the values, e.g. a dropdown list of the allowed entries
+    validation?: DataValidation
+    // false leaves the values editable on a protected sheet
+    locked?: boolean
+}
+
+export interface HtmlOptions {
+    /**
+     * Worksheet to render, by name or zero-based index; every sheet is rendered (one <table> each) otherwise
+     */
+    sheet?: string | number
+    /**
+     * Leading rows rendered as <th> cells in a <thead>
+     * @default 0
+     */
+    headerRows?: number
+    /**
+     * Write data-xlsx-type/value/format/formula attributes, so values survive converting the HTML back
+     * @default true
+     */
+    valueAttributes?: boolean
+}
+
+export interface RowsSheet<Row = any, Rows = Iterable<Row>> {
+    columns: ColumnDefinition<Row>[]
+    rows: Rows
+    // Worksheet name (SheetN otherwise)
+    name?: string
 }
 
-export interface StreamOptions {
+export interface StreamOptions extends ConvertOptions {
     chunkSize?: number
     onChunk?: (chunkNumber: number, processedRows: number) => void
     onComplete?: (totalRows: number, outputPath?: string) => void
     onError?: (error: Error) => void
+    /**
+     * createStreamProcessor only: serialize rows into the XLSX as they arrive instead of
+     * building the workbook in finalize, keeping memory constant. Needs an outputPath or `output`
+     */
+    incremental?: boolean
+    /**
+     * Destination of an incremental stream processor (implies `incremental`)
+     */
+    output?: Writable
+    /**
+     * Column widths in characters for incremental output; measured on the first `sampleRows` rows otherwise
+     */
+    columnWidths?: number[]
+    /**
+     * Rows held back to measure column widths in incremental output
+     * @default 100
+     */
+    sampleRows?: number
 }
 
 export interface TableStreamProcessor {
-    writeHeader: (headerHtml: string) => void
-    writeRow: (rowHtml: string) => void
-    writeChunk: (htmlChunk: string) => void
+    // Start a new worksheet; following writeHeader/writeRow/writeChunk calls go into it
+    startSheet: (name?: string) => void
+    // The write methods return false when incremental output is saturated; await drain() before writing more
+    writeHeader: (headerHtml: string) => boolean
+    writeRow: (rowHtml: string) => boolean
+    writeChunk: (htmlChunk: string) => boolean
+    drain: () => Promise<void>
     finalize: () => Promise<string | Buffer>
     getProcessedRows: () => number
 }
 
 
+// Sheet features written into the package after xlsx-js-style serializes the workbook
+interface WorksheetExtras {
+    richText?: { [address: string]: { runs: RichTextRun[], font: any } }
+    freeze?: { rows: number, columns: number }
+    conditionalFormats?: { ref: string, format: ConditionalFormat }[]
+    dataValidations?: { address: XLSX.CellAddress, validation: DataValidation }[]
+    comments?: SheetNote[]
+    images?: SheetImage[]
+    // Deepest row and column levels, and the summary rows and columns of collapsed groups
+    outline?: { rowLevel: number, columnLevel: number, collapsedRows: number[], collapsedColumns: number[] }
+    // Print settings, the rows starting a new page and the number of header rows printed on every page
+    page?: { setup?: PageSetup, breaks: number[], printTitleRows?: number }
+    protection?: SheetProtection
+    // Cells whose style unlocks them, which xlsx-js-style writes without their protection
+    unlockedCells?: string[]
+}
+
+// A column declared by <col> (or a <colgroup> without <col> children)
+interface TableColumn {
+    width?: number
+    hidden: boolean
+    level?: number
+    // Dropped from the sheet (display: none, hidden or data-xlsx-ignore)
+    excluded: boolean
+    // data-xlsx-cf of the <col> and its <colgroup>
+    conditionalFormats: ConditionalFormat[]
+}
+
+interface StreamSheet {
+    name?: string
+    rows: TableRow[]
+    maxCols: number
+    headerProcessed: boolean
+    headerRows: number
+    // Widths and hidden columns from the header's <col> elements and cells
+    columnWidths?: (number | undefined)[]
+    hiddenColumns?: number[]
+    columnLevels?: number[]
+    // Header text of each column and the data-xlsx-cf rules of the header's table and <col> elements
+    columnHeaders: string[]
+    conditionalFormats?: ConditionalFormatRule[]
+    // Drops the columns the header's <col> elements exclude
+    filterColumns: (cells: TableCell[]) => TableCell[]
+    // <style> rules and opening <table> tag of the header, applied to the rows that follow
+    styleRules: CssRule[]
+    tableTag: string
+}
+
+// Receives the rows of an incremental stream processor; sheets are written one after another
+interface IncrementalSheetWriter {
+    startSheet: (name: string, sheetOptions?: StreamSheetOptions) => void
+    addRow: (cells: TableCell[], height?: number, hidden?: boolean, level?: number, pageBreak?: boolean) => void
+    readonly needsDrain: boolean
+    drain: () => Promise<void>
+    finish: (properties: DocumentProperties) => Promise<string | Buffer>
+}
 
 export default class TableToXlsx {
     private static readonly LARGE_TABLE_THRESHOLD = 10000 // rows
     private static readonly MAX_ROWS_WARNING = 100000
+    private static readonly MAX_SHEET_NAME_LENGTH = 31
+    private static readonly HYPERLINK_COLOR = '0563C1'
+    // Excel's deepest row and column outline level
+    private static readonly MAX_OUTLINE_LEVEL = 7
+    private static readonly OUTPUT_EXTENSIONS: { [format in OutputFormat]: string[] } = {
+        xlsx: ['xlsx'], csv: ['csv'], tsv: ['tsv', 'tab'], ods: ['ods'], xlsb: ['xlsb'], xls: ['xls']
+    }
+    // <input> types whose value is shown as text
+    private static readonly TEXT_INPUT_TYPES = ['text', 'number', 'range', 'date', 'time', 'datetime-local', 'month', 'week', 'email', 'tel', 'url', 'search']
+    // Form controls that make their cell an input cell, left unlocked on protected sheets
+    private static readonly EDITABLE_CONTROLS = 'select, textarea, input:not([type="hidden"]):not([type="button"]):not([type="submit"]):not([type="reset"])'
+    // Style properties a cell inherits from the classes of its row, section and table
+    private static readonly INHERITED_STYLES: (keyof NonNullable<TableCell['styles']>)[] = [
+        'color', 'fontSize', 'fontWeight', 'fontStyle', 'fontFamily', 'textAlign', 'wrapText', 'underline', 'strike'
+    ]
 
     /**
      * Convert HTML table to Excel file
      * @param html HTML string containing a table
      * @param outputPath Optional output path (if not provided, returns buffer)
+     * @param options Conversion options
      * @returns Promise that resolves to output path or buffer
      */
-    static async convert(html: string, outputPath?: string): Promise<string | Buffer> {
+    static async convert(html: string, outputPath?: string, options: ConvertOptions = {}): Promise<string | Buffer> {
         try {
-            const tableData = await this.parseHtmlTable(html)
-
-            // Warn about large tables
-            if (tableData.rows.length > this.MAX_ROWS_WARNING) {
-                console.warn(`⚠️ Large table detected: ${tableData.rows.length} rows. This may take a while and use significant memory.`)
-            }
-
-            // Use optimized processing for large tables
-            if (tableData.rows.length > this.LARGE_TABLE_THRESHOLD) {
-                return this.convertLargeTable(tableData, outputPath)
-            }
-
-            const { data: excelData, merges } = this.createExcelData(tableData)
-
-            if (outputPath) {
-                this.createExcelFile(excelData, merges, outputPath, tableData)
-                return outputPath
-            } else {
-                return this.createExcelBuffer(excelData, merges, tableData)
-            }
+            const $ = cheerio.load(html)
+            const tables = await this.parseHtmlTables($, options)
+            return this.writeWorkbook(this.createWorkbook(tables, options), outputPath, options, this.parseDocumentProperties($))
         } catch (error) {
             throw new Error(`Failed to convert HTML to Excel: ${error}`)
         }
@@ -85,21 +533,132 @@ export default class TableToXlsx {
      * Convert HTML table to Excel and save to file
      * @param html HTML string containing a table
      * @param outputPath Path where the Excel file will be saved
-     * @param titleConfig Configuration for title rows
+     * @param options Conversion options
      * @returns Promise that resolves to the output file path
      */
-    static async convertToFile(html: string, outputPath: string): Promise<string> {
-        return this.convert(html, outputPath) as Promise<string>
+    static async convertToFile(html: string, outputPath: string, options: ConvertOptions = {}): Promise<string> {
+        return this.convert(html, outputPath, options) as Promise<string>
     }
 
     /**
      * Convert HTML table to Excel and return as buffer
      * @param html HTML string containing a table
-     * @param titleConfig Configuration for title rows
+     * @param options Conversion options
      * @returns Promise that resolves to buffer
      */
-    static async convertToBuffer(html: string): Promise<Buffer> {
-        return this.convert(html) as Promise<Buffer>
+    static async convertToBuffer(html: string, options: ConvertOptions = {}): Promise<Buffer> {
+        return this.convert(html, undefined, options) as Promise<Buffer>
+    }
+
+    /**
+     * Render an XLSX workbook as HTML tables: merges become colspan/rowspan and cell styles
+     * (fill, font, alignment, borders) become inline CSS that convert reads back
+     * @param xlsx XLSX buffer or file path
+     * @param options Rendering options
+     * @returns Promise that resolves to the HTML
+     */
+    static async toHtml(xlsx: Buffer | string, options: HtmlOptions = {}): Promise<string> {
+        try {
+            return renderWorkbookHtml(typeof xlsx === 'string' ? fs.readFileSync(xlsx) : xlsx, options)
+        } catch (error) {
+            throw new Error(`Failed to convert Excel to HTML: ${error}`)
+        }
+    }
+
+    /**
+     * Convert objects to Excel without HTML, one worksheet per sheet definition
+     * @param sheets Column definitions and rows (or an array of them for several worksheets)
+     * @param outputPath Optional output path (if not provided, returns buffer)
+     * @param options Conversion options
+     * @returns Promise that resolves to output path or buffer
+     */
+    static async convertRows<Row>(sheets: RowsSheet<Row> | RowsSheet<Row>[], outputPath?: string, options: ConvertOptions = {}): Promise<string | Buffer> {
+        try {
+            const usedNames = new Set<string>()
+            const tables = (Array.isArray(sheets) ? sheets : [sheets]).map((sheet, index) => {
+                const columns = this.getLeafColumns(sheet.columns)
+                const rows = this.createColumnHeaderRows(sheet.columns)
+                const headerRows = rows.length
+                Array.from(sheet.rows).forEach((row, rowIndex) => {
+                    rows.push({ cells: this.createRowCells(row, rowIndex, columns) })
+                })
+
+                return {
+                    rows,
+                    maxCols: columns.length,
+                    name: this.sanitizeSheetName(sheet.name, index, usedNames),
+                    columnWidths: columns.map(column => column.width),
+                    headerRows
+                }
+            })
+
+            return this.writeWorkbook(this.createWorkbook(tables, options), outputPath, options)
+        } catch (error) {
+            throw new Error(`Failed to convert rows to Excel: ${error}`)
+        }
+    }
+
+    /**
+     * Convert objects from an (async) iterable, such as a database cursor, writing each row as it arrives
+     * Memory stays constant: rows are serialized into the XLSX incrementally, like an incremental stream processor
+     * @param sheets Column definitions and rows (or an array of them for several worksheets)
+     * @param outputPath Optional output path (if neither it nor `options.output` is given, returns buffer)
+     * @param options Streaming options
+     * @returns Promise that resolves to output path or buffer (empty when writing to `options.output`)
+     */
+    static async convertRowsStream<Row>(sheets: RowsSheet<Row, Iterable<Row> | AsyncIterable<Row>> | RowsSheet<Row, Iterable<Row> | AsyncIterable<Row>>[], outputPath?: string, options: StreamOptions = {}): Promise<string | Buffer> {
+        const chunks: Buffer[] = []
+        const output = options.output || (outputPath ? undefined : new Writable({
+            write(chunk, _encoding, callback) {
+                chunks.push(chunk)
+                callback()
+            }
+        }))
+
+        try {
+            const writer = this.createIncrementalWriter(outputPath, { ...options, output })
+            const usedNames = new Set<string>()
+            const chunkSize = options.chunkSize || 1000
+            let rowCount = 0
+            let chunkNumber = 0
+
+            for (const [index, sheet] of (Array.isArray(sheets) ? sheets : [sheets]).entries()) {
+                const columns = this.getLeafColumns(sheet.columns)
+                const headerRows = this.createColumnHeaderRows(sheet.columns)
+                writer.startSheet(this.sanitizeSheetName(sheet.name, index, usedNames), {
+                    columnWidths: options.columnWidths || columns.map(column => column.width),
+                    ...this.resolveHeaderView(headerRows.length, options),
+                    ...this.resolvePageSetup(headerRows.length, options),
+                    protection: this.resolveProtection(options),
+                    conditionalFormats: {
+                        fromRow: headerRows.length,
+                        rules: this.resolveConditionalFormats([], this.getColumnHeaders(headerRows, headerRows.length), options)
+                    }
+                })
+                headerRows.forEach(row => writer.addRow(row.cells))
+
+                let rowIndex = 0
+                for await (const row of sheet.rows) {
+                    writer.addRow(this.createRowCells(row, rowIndex++, columns))
+                    rowCount++
+
+                    if (rowCount % chunkSize === 0) {
+                        chunkNumber++
+                        options.onChunk?.(chunkNumber, rowCount)
+                    }
+                    if (writer.needsDrain) {
+                        await writer.drain()
+                    }
+                }
+            }
+
+            const result = await writer.finish(this.resolveDocumentProperties({}, options))
+            options.onComplete?.(rowCount, typeof result === 'string' ? result : undefined)
+            return output && !options.output ? Buffer.concat(chunks) : result
+        } catch (error) {
+            options.onError?.(error as Error)
+            throw new Error(`Failed to convert rows to Excel with streaming: ${error}`)
+        }
     }
 
     /**
@@ -110,15 +669,65 @@ export default class TableToXlsx {
  * @returns TableStreamProcessor for incremental data writing
  */
     static createStreamProcessor(outputPath?: string, options: StreamOptions = {}): TableStreamProcessor {
-        let headerProcessed = false
+        const sheets: StreamSheet[] = []
+        let currentSheet: StreamSheet | undefined
         let rowCount = 0
-        const allRows: TableRow[] = []
-        let maxCols = 0
         let chunkNumber = 0
         const chunkSize = options.chunkSize || 1000
 
+        // Incremental mode writes each row out immediately instead of keeping it in sheet.rows
+        const writer = options.incremental || options.output ? this.createIncrementalWriter(outputPath, options) : undefined
+        const usedNames = new Set<string>()
+        let writtenSheet: StreamSheet | undefined
+        let writtenRows = 0
+        // Document properties from the <title> and <meta> tags of the first header
+        let htmlProperties: DocumentProperties | undefined
+
+        const startSheet = (name?: string) => {
+            currentSheet = { name, rows: [], maxCols: 0, headerProcessed: false, headerRows: 0, styleRules: [], tableTag: '<table>', columnHeaders: [], filterColumns: cells => cells }
+            sheets.push(currentSheet)
+        }
+
+        const addRow = (sheet: StreamSheet, row: TableRow) => {
+            // Calculate max cols considering colspan
+            const totalCols = row.cells.reduce((sum, cell) => sum + cell.colspan, 0)
+            sheet.maxCols = Math.max(sheet.maxCols, totalCols)
+
+            if (writer) {
+                if (writtenSheet !== sheet) {
+                    // Widths given in the options win over the header's <col> and cell widths
+                    const htmlWidths = sheet.columnWidths
+                    const columnWidths = htmlWidths && Array.from({ length: Math.max(htmlWidths.length, options.columnWidths?.length || 0) }, (_, c) =>
+                        options.columnWidths?.[c] ?? htmlWidths[c])
+                    writer.startSheet(this.sanitizeSheetName(sheet.name, sheets.indexOf(sheet), usedNames), {
+                        columnWidths,
+                        hiddenColumns: sheet.hiddenColumns,
+                        outline: this.resolveOutline(sheet.columnLevels, options),
+                        ...this.resolveHeaderView(sheet.headerRows, options),
+                        ...this.resolvePageSetup(sheet.headerRows, options),
+                        protection: this.resolveProtection(options),
+                        conditionalFormats: {
+                            fromRow: sheet.headerRows,
+                            rules: this.resolveConditionalFormats(sheet.conditionalFormats, sheet.columnHeaders, options)
+                        }
+                    })
+                    writtenSheet = sheet
+                }
+                writer.addRow(row.cells, row.height, row.hidden, row.level, row.pageBreak)
+                writtenRows++
+                return
+            }
+
+            sheet.rows.push(row)
+        }
+
         const writeHeader = (headerHtml: string) => {
-            if (headerProcessed) {
+            if (!currentSheet) {
+                startSheet()
+            }
+            const sheet = currentSheet as StreamSheet
+
+            if (sheet.headerProcessed) {
                 throw new Error('Header already processed')
             }
 
@@ -127,42 +736,50 @@ export default class TableToXlsx {
             if (headerHtml.includes('<table')) {
                 // Already has table wrapper
                 $ = cheerio.load(headerHtml)
+                sheet.name = sheet.name || this.getSheetName($('table').first())
+                // Quoted attribute values may hold ">" (data-xlsx-cf formulas)
+                sheet.tableTag = headerHtml.match(/<table\b(?:[^>"']|"[^"]*"|'[^']*')*>/i)?.[0] || sheet.tableTag
             } else {
                 // Fragment - wrap it properly
                 $ = cheerio.load(`<table>${headerHtml}</table>`)
             }
 
+            sheet.styleRules = this.collectStyleRules($)
+            htmlProperties = htmlProperties || this.parseDocumentProperties($)
+            const cascade = this.createStyleCascade($, options)
+
+            const cols = this.parseCols($, $('table').first(), cascade)
+            sheet.filterColumns = this.createColumnFilter(cols)
+
+            // All header rows are parsed before the first is added: an incremental sheet freezes below them
+            const headerRows: TableRow[] = []
             $('tr').each((_, row) => {
+                if (this.isRowExcluded($(row), cascade)) return
+
                 const cells: TableCell[] = []
-                $(row).find('th, td').each((_, cell) => {
-                    const $cell = $(cell)
-                    const colspan = parseInt($cell.attr('colspan') || '1')
-                    const rowspan = parseInt($cell.attr('rowspan') || '1')
-
-                    cells.push({
-                        content: $cell.text().trim(),
-                        colspan: colspan,
-                        rowspan: rowspan,
-                        isHeader: true,
-                        styles: this.parseCellStyles($cell)
-                    })
+                $(row).find('th, td').filter((_, cell) => !this.isExcluded(cell, cascade)).each((_, cell) => {
+                    cells.push(this.parseCell($(cell), true, cascade, options))
                 })
                 if (cells.length > 0) {
-                    allRows.push({ cells })
-                    // Calculate max cols considering colspan
-                    const totalCols = cells.reduce((sum, cell) => sum + cell.colspan, 0)
-                    maxCols = Math.max(maxCols, totalCols)
+                    headerRows.push({ cells: sheet.filterColumns(cells), ...this.parseRowLayout($(row), cascade) })
                 }
             })
-
-            headerProcessed = true
-            console.log(`[TableToXlsx] 📋 Header processed: ${allRows.length} header rows, ${maxCols} max columns`)
+            sheet.headerRows = headerRows.length
+            Object.assign(sheet, this.getColumnLayout(cols, headerRows, headerRows.length))
+            sheet.columnHeaders = this.getColumnHeaders(headerRows, headerRows.length)
+            sheet.conditionalFormats = this.getDeclaredConditionalFormats($('table').first(), cols)
+            headerRows.forEach(row => addRow(sheet, row))
+
+            sheet.headerProcessed = true
+            console.log(`[TableToXlsx] 📋 Header processed: ${sheet.headerRows} header rows, ${sheet.maxCols} max columns`)
+            return !writer?.needsDrain
         }
 
         const writeRow = (rowHtml: string) => {
-            if (!headerProcessed) {
+            if (!currentSheet?.headerProcessed) {
                 throw new Error('Header must be processed before writing rows')
             }
+            const sheet = currentSheet
 
             // Parse single row HTML - handle both complete tables and fragments
             let $
@@ -170,30 +787,21 @@ export default class TableToXlsx {
                 // Already has table wrapper
                 $ = cheerio.load(rowHtml)
             } else {
-                // Fragment - wrap it properly
-                $ = cheerio.load(`<table><tbody>${rowHtml}</tbody></table>`)
+                // Fragment - wrap it in the header's table so table selectors and inheritance apply
+                $ = cheerio.load(`${sheet.tableTag}<tbody>${rowHtml}</tbody></table>`)
             }
+            const cascade = this.createStyleCascade($, options, sheet.styleRules)
 
             $('tr').each((_, row) => {
+                if (this.isRowExcluded($(row), cascade)) return
+
                 const cells: TableCell[] = []
-                $(row).find('td, th').each((_, cell) => {
+                $(row).find('td, th').filter((_, cell) => !this.isExcluded(cell, cascade)).each((_, cell) => {
                     const $cell = $(cell)
-                    const colspan = parseInt($cell.attr('colspan') || '1')
-                    const rowspan = parseInt($cell.attr('rowspan') || '1')
-
-                    cells.push({
-                        content: $cell.text().trim(),
-                        colspan: colspan,
-                        rowspan: rowspan,
-                        isHeader: $cell.prop('tagName') === 'TH',
-                        styles: this.parseCellStyles($cell)
-                    })
+                    cells.push(this.parseCell($cell, $cell.prop('tagName') === 'TH', cascade, options))
                 })
                 if (cells.length > 0) {
-                    allRows.push({ cells })
-                    // Calculate max cols considering colspan
-                    const totalCols = cells.reduce((sum, cell) => sum + cell.colspan, 0)
-                    maxCols = Math.max(maxCols, totalCols)
+                    addRow(sheet, { cells: sheet.filterColumns(cells), ...this.parseRowLayout($(row), cascade) })
                     rowCount++
                 }
             })
@@ -204,12 +812,14 @@ export default class TableToXlsx {
                 options.onChunk?.(chunkNumber, rowCount)
                 console.log(`[TableToXlsx] 📦 Processed chunk ${chunkNumber} (${rowCount} rows)`)
             }
+            return !writer?.needsDrain
         }
 
         const writeChunk = (htmlChunk: string) => {
-            if (!headerProcessed) {
+            if (!currentSheet?.headerProcessed) {
                 throw new Error('Header must be processed before writing chunks')
             }
+            const sheet = currentSheet
 
             // Parse chunk of rows - handle both complete tables and fragments
             let $
@@ -217,30 +827,21 @@ export default class TableToXlsx {
                 // Already has table wrapper
                 $ = cheerio.load(htmlChunk)
             } else {
-                // Fragment - wrap it properly
-                $ = cheerio.load(`<table><tbody>${htmlChunk}</tbody></table>`)
+                // Fragment - wrap it in the header's table so table selectors and inheritance apply
+                $ = cheerio.load(`${sheet.tableTag}<tbody>${htmlChunk}</tbody></table>`)
             }
+            const cascade = this.createStyleCascade($, options, sheet.styleRules)
 
             $('tr').each((_, row) => {
+                if (this.isRowExcluded($(row), cascade)) return
+
                 const cells: TableCell[] = []
-                $(row).find('td, th').each((_, cell) => {
+                $(row).find('td, th').filter((_, cell) => !this.isExcluded(cell, cascade)).each((_, cell) => {
                     const $cell = $(cell)
-                    const colspan = parseInt($cell.attr('colspan') || '1')
-                    const rowspan = parseInt($cell.attr('rowspan') || '1')
-
-                    cells.push({
-                        content: $cell.text().trim(),
-                        colspan: colspan,
-                        rowspan: rowspan,
-                        isHeader: $cell.prop('tagName') === 'TH',
-                        styles: this.parseCellStyles($cell)
-                    })
+                    cells.push(this.parseCell($cell, $cell.prop('tagName') === 'TH', cascade, options))
                 })
                 if (cells.length > 0) {
-                    allRows.push({ cells })
-                    // Calculate max cols considering colspan
-                    const totalCols = cells.reduce((sum, cell) => sum + cell.colspan, 0)
-                    maxCols = Math.max(maxCols, totalCols)
+                    addRow(sheet, { cells: sheet.filterColumns(cells), ...this.parseRowLayout($(row), cascade) })
                     rowCount++
                 }
             })
@@ -251,28 +852,70 @@ export default class TableToXlsx {
             if (rowCount % 10000 === 0) {
                 console.log(`[TableToXlsx] 📦 Processed ${rowCount} rows in ${chunkNumber} chunks`)
             }
+            return !writer?.needsDrain
+        }
+
+        const drain = async (): Promise<void> => {
+            await writer?.drain()
         }
 
         const finalize = async (): Promise<string | Buffer> => {
-            if (!headerProcessed) {
+            if (sheets.length === 0) {
                 throw new Error('No header data processed')
             }
 
-            console.log(`[TableToXlsx] ✅ Finalizing stream: ${rowCount} data rows, ${allRows.length} total rows, ${maxCols} columns`)
-
-            const tableData: TableData = { rows: allRows, maxCols }
+            const totalRows = writer ? writtenRows : sheets.reduce((sum, sheet) => sum + sheet.rows.length, 0)
+            console.log(`[TableToXlsx] ✅ Finalizing stream: ${rowCount} data rows, ${totalRows} total rows, ${sheets.length} sheet(s)`)
 
             try {
-                // Use optimized processing for large tables
-                if (tableData.rows.length > this.LARGE_TABLE_THRESHOLD) {
-                    const result = await this.convertLargeTable(tableData, outputPath)
-                    options.onComplete?.(tableData.rows.length, typeof result === 'string' ? result : undefined)
-                    return result
-                } else {
-                    const result = await this.convertTableDataToExcel(tableData, outputPath)
-                    options.onComplete?.(tableData.rows.length, typeof result === 'string' ? result : undefined)
+                if (writer) {
+                    const unfinished = sheets.findIndex(sheet => !sheet.headerProcessed)
+                    if (unfinished >= 0) {
+                        throw new Error(`No header data processed for sheet ${unfinished + 1}`)
+                    }
+
+                    const result = await writer.finish(this.resolveDocumentProperties(htmlProperties, options))
+                    options.onComplete?.(totalRows, typeof result === 'string' ? result : undefined)
                     return result
                 }
+
+                const workbook = XLSX.utils.book_new()
+
+                sheets.forEach((sheet, index) => {
+                    if (!sheet.headerProcessed) {
+                        throw new Error(`No header data processed for sheet ${index + 1}`)
+                    }
+
+                    const tableData: TableData = {
+                        rows: sheet.rows,
+                        maxCols: sheet.maxCols,
+                        name: this.sanitizeSheetName(sheet.name, index, usedNames),
+                        columnWidths: sheet.columnWidths,
+                        hiddenColumns: sheet.hiddenColumns,
+                        columnLevels: sheet.columnLevels,
+                        headerRows: sheet.headerRows,
+                        conditionalFormats: sheet.conditionalFormats
+                    }
+                    this.prepareTableData(tableData, options)
+
+                    // Use optimized processing for large tables
+                    const worksheet = tableData.rows.length > this.LARGE_TABLE_THRESHOLD
+                        ? this.createLargeTableWorksheet(tableData)
+                        : this.createTableDataWorksheet(tableData)
+                    this.applyHeaderView(worksheet, tableData, options)
+                    this.applyConditionalFormats(worksheet, tableData, options)
+                    this.applyImageSizes(worksheet)
+                    this.applyHiddenRowsAndColumns(worksheet, tableData)
+                    this.applyOutline(worksheet, tableData, options)
+                    this.applyPageSetup(worksheet, tableData, options)
+                    this.applySheetProtection(worksheet, options)
+
+                    XLSX.utils.book_append_sheet(workbook, worksheet, tableData.name)
+                })
+
+                const result = this.writeWorkbook(workbook, outputPath, options, htmlProperties)
+                options.onComplete?.(totalRows, typeof result === 'string' ? result : undefined)
+                return result
             } catch (error) {
                 options.onError?.(error as Error)
                 throw error
@@ -284,14 +927,26 @@ export default class TableToXlsx {
         }
 
         return {
+            startSheet,
             writeHeader,
             writeRow,
             writeChunk,
+            drain,
             finalize,
             getProcessedRows
         }
     }
 
+    /**
+     * Create a Transform that takes raw HTML bytes or text and emits XLSX bytes
+     * Rows are parsed as their </tr> closes and written incrementally; each top-level table becomes a worksheet
+     * @param options Streaming options (`output` and `incremental` are implied)
+     * @returns Transform to pipe HTML into and XLSX out of
+     */
+    static createConvertStream(options: StreamOptions = {}): Transform {
+        return new XlsxConvertStream(output => this.createStreamProcessor(undefined, { ...options, output }))
+    }
+
     /**
      * Convert HTML table to Excel with streaming processing for large tables
      * Processes HTML in chunks to avoid memory issues with massive HTML strings
@@ -306,84 +961,109 @@ export default class TableToXlsx {
 
             // Parse the HTML to get table structure
             const $ = cheerio.load(html)
-            const table = $('table').first()
+            const cascade = this.createStyleCascade($, options)
+            const tables = this.findTables($, cascade)
 
-            if (table.length === 0) {
+            if (tables.length === 0) {
                 throw new Error('No table found in HTML')
             }
 
-            // Extract header rows
-            const headerRows: TableRow[] = []
-            table.find('thead tr, tr:first-child').each((_, row) => {
-                const cells: TableCell[] = []
-                $(row).find('th, td').each((_, cell) => {
-                    const $cell = $(cell)
-                    cells.push({
-                        content: $cell.text().trim(),
-                        colspan: parseInt($cell.attr('colspan') || '1'),
-                        rowspan: parseInt($cell.attr('rowspan') || '1'),
-                        isHeader: $cell.prop('tagName') === 'TH',
-                        styles: this.parseCellStyles($cell)
-                    })
-                })
-                if (cells.length > 0) {
-                    headerRows.push({ cells })
-                }
-            })
-
-            // Process body rows in chunks
+            const workbook = XLSX.utils.book_new()
+            const usedNames = new Set<string>()
             const chunkSize = options.chunkSize || 1000
-            const allRows: TableRow[] = [...headerRows]
-            let maxCols = 0
+            let totalRows = 0
             let chunkNumber = 0
 
-            // Get all body rows
-            const bodyRows = table.find('tbody tr, tr:not(:first-child)').toArray()
+            tables.forEach((tableElement, tableIndex) => {
+                const table = $(tableElement)
+                const cols = this.parseCols($, table, cascade)
+                const filterColumns = this.createColumnFilter(cols)
 
-            for (let i = 0; i < bodyRows.length; i += chunkSize) {
-                const chunk = bodyRows.slice(i, i + chunkSize)
+                // Extract header rows
+                const headerRows: TableRow[] = []
+                table.find('thead tr, tr:first-child').each((_, row) => {
+                    if (this.isRowExcluded($(row), cascade)) return
 
-                chunk.forEach((row) => {
                     const cells: TableCell[] = []
-                    $(row).find('td, th').each((_, cell) => {
+                    $(row).find('th, td').filter((_, cell) => !this.isExcluded(cell, cascade)).each((_, cell) => {
                         const $cell = $(cell)
-                        cells.push({
-                            content: $cell.text().trim(),
-                            colspan: parseInt($cell.attr('colspan') || '1'),
-                            rowspan: parseInt($cell.attr('rowspan') || '1'),
-                            isHeader: $cell.prop('tagName') === 'TH',
-                            styles: this.parseCellStyles($cell)
-                        })
+                        cells.push(this.parseCell($cell, $cell.prop('tagName') === 'TH', cascade, options))
                     })
                     if (cells.length > 0) {
-                        allRows.push({ cells })
-                        maxCols = Math.max(maxCols, cells.length)
+                        headerRows.push({ cells: filterColumns(cells), ...this.parseRowLayout($(row), cascade) })
                     }
                 })
 
-                chunkNumber++
-                options.onChunk?.(chunkNumber, allRows.length)
+                // Process body rows in chunks
+                const allRows: TableRow[] = [...headerRows]
+                let maxCols = 0
+
+                // Get all body rows
+                const bodyRows = table.find('tbody tr, tr:not(:first-child)').toArray()
+                // Hidden and ignored rows are dropped, rowspans reaching over them shrink
+                const excludedRows = bodyRows.map(row => this.isRowExcluded($(row), cascade))
+
+                for (let i = 0; i < bodyRows.length; i += chunkSize) {
+                    const chunk = bodyRows.slice(i, i + chunkSize)
+
+                    chunk.forEach((row, chunkIndex) => {
+                        const index = i + chunkIndex
+                        if (excludedRows[index]) return
+
+                        const cells: TableCell[] = []
+                        $(row).find('td, th').filter((_, cell) => !this.isExcluded(cell, cascade)).each((_, cell) => {
+                            const $cell = $(cell)
+                            const parsedCell = this.parseCell($cell, $cell.prop('tagName') === 'TH', cascade, options)
+                            parsedCell.rowspan -= excludedRows.slice(index + 1, index + parsedCell.rowspan).filter(Boolean).length
+                            cells.push(parsedCell)
+                        })
+                        if (cells.length > 0) {
+                            const keptCells = filterColumns(cells)
+                            allRows.push({ cells: keptCells, ...this.parseRowLayout($(row), cascade) })
+                            maxCols = Math.max(maxCols, keptCells.length)
+                        }
+                    })
 
-                // Progress indicator
-                if (allRows.length % 10000 === 0) {
-                    console.log(`[TableToXlsx] 📝 Processed ${allRows.length}/${bodyRows.length + headerRows.length} rows`)
+                    chunkNumber++
+                    options.onChunk?.(chunkNumber, totalRows + allRows.length)
+
+                    // Progress indicator
+                    if (allRows.length % 10000 === 0) {
+                        console.log(`[TableToXlsx] 📝 Processed ${allRows.length}/${bodyRows.length + headerRows.length} rows`)
+                    }
                 }
-            }
 
-            const tableData: TableData = { rows: allRows, maxCols }
+                const tableData: TableData = {
+                    rows: allRows,
+                    maxCols,
+                    name: this.sanitizeSheetName(this.getSheetName(table), tableIndex, usedNames),
+                    ...this.getColumnLayout(cols, headerRows, headerRows.length),
+                    headerRows: headerRows.length,
+                    conditionalFormats: this.getDeclaredConditionalFormats(table, cols)
+                }
+                this.prepareTableData(tableData, options)
+                totalRows += tableData.rows.length
 
-            console.log(`[TableToXlsx] ✅ HTML parsing completed: ${tableData.rows.length} rows, ${maxCols} columns`)
+                console.log(`[TableToXlsx] ✅ HTML parsing completed: ${tableData.rows.length} rows, ${maxCols} columns`)
 
-            // Use optimized processing for large tables
-            if (tableData.rows.length > this.LARGE_TABLE_THRESHOLD) {
-                const result = await this.convertLargeTable(tableData, outputPath)
-                options.onComplete?.(tableData.rows.length, typeof result === 'string' ? result : undefined)
-                return result
-            } else {
-                const result = await this.convertTableDataToExcel(tableData, outputPath)
-                options.onComplete?.(tableData.rows.length, typeof result === 'string' ? result : undefined)
-                return result
-            }
+                // Use optimized processing for large tables
+                const worksheet = tableData.rows.length > this.LARGE_TABLE_THRESHOLD
+                    ? this.createLargeTableWorksheet(tableData)
+                    : this.createTableDataWorksheet(tableData)
+                this.applyHeaderView(worksheet, tableData, options)
+                this.applyConditionalFormats(worksheet, tableData, options)
+                this.applyImageSizes(worksheet)
+                this.applyHiddenRowsAndColumns(worksheet, tableData)
+                this.applyOutline(worksheet, tableData, options)
+                this.applyPageSetup(worksheet, tableData, options)
+                this.applySheetProtection(worksheet, options)
+
+                XLSX.utils.book_append_sheet(workbook, worksheet, tableData.name)
+            })
+
+            const result = this.writeWorkbook(workbook, outputPath, options, this.parseDocumentProperties($))
+            options.onComplete?.(totalRows, typeof result === 'string' ? result : undefined)
+            return result
         } catch (error) {
             options.onError?.(error as Error)
             throw new Error(`Failed to convert HTML to Excel with streaming: ${error}`)
@@ -391,308 +1071,1945 @@ export default class TableToXlsx {
     }
 
     /**
- * Convert TableData directly to Excel with full styling (for streaming)
- */
-    private static async convertTableDataToExcel(tableData: TableData, outputPath?: string): Promise<string | Buffer> {
-        const workbook = XLSX.utils.book_new()
+     * Row sink of an incremental stream processor: lays out each row (spans, formulas, links)
+     * against the rows before it and serializes it right away
+     * Only open rowspans, header positions per column and cell ids are remembered between rows
+     */
+    private static createIncrementalWriter(outputPath: string | undefined, options: StreamOptions): IncrementalSheetWriter {
+        if (!options.output && !outputPath) {
+            throw new Error('Incremental streaming needs an outputPath or options.output')
+        }
+        if (this.resolveOutputFormat(outputPath, options.outputFormat) !== 'xlsx') {
+            throw new Error('Incremental streaming only writes xlsx')
+        }
+
+        const output = options.output || fs.createWriteStream(outputPath as string)
+        const writer = new XlsxStreamWriter(output, {
+            columnWidths: options.columnWidths,
+            sampleRows: options.sampleRows,
+            noteSize: this.resolveNoteSize(options)
+        })
+
+        let sheetName = ''
+        let r = 0
+        let spans: ({ rows: number, style: any, isHeader: boolean } | undefined)[] = []
+        let lastHeaderRow: number[] = []
+        let ids = new Map<string, XLSX.CellAddress>()
+
+        const startSheet = (name: string, sheetOptions?: StreamSheetOptions) => {
+            writer.startSheet(name, sheetOptions)
+            sheetName = name
+            r = 0
+            spans = []
+            lastHeaderRow = []
+            ids = new Map()
+        }
+
+        const addRow = (cells: TableCell[], height?: number, hidden?: boolean, level?: number, pageBreak?: boolean) => {
+            this.prepareTableData({ rows: [{ cells }], maxCols: 0 }, options)
+
+            const row: (StreamCell | undefined)[] = []
+            const headerAt: boolean[] = []
+            const placed: { cell: TableCell, c: number }[] = []
+
+            // Cells still covered by rowspans from rows above
+            spans.forEach((span, c) => {
+                if (!span || span.rows === 0) return
+                row[c] = { style: span.style }
+                headerAt[c] = span.isHeader
+                span.rows--
+            })
+
+            let col = 0
+            cells.forEach(cell => {
+                while (row[col]) col++
+
+                const style = this.buildCellStyle(cell.styles, cell.locked)
+                row[col] = { style }
+                placed.push({ cell, c: col })
+                if (cell.id) ids.set(cell.id, { r, c: col })
+
+                if (cell.colspan > 1 || cell.rowspan > 1) {
+                    writer.addMerge({ s: { r, c: col }, e: { r: r + cell.rowspan - 1, c: col + cell.colspan - 1 } })
+                }
+
+                for (let c = col; c < col + cell.colspan; c++) {
+                    if (c > col) row[c] = { style }
+                    headerAt[c] = cell.isHeader
+                    if (cell.rowspan > 1) spans[c] = { rows: cell.rowspan - 1, style, isHeader: cell.isHeader }
+                }
+                col += cell.colspan
+            })
+
+            // Formula references look at header positions of earlier rows and of this row
+            const isHeaderAt = (rowIndex: number, c: number) => rowIndex === r ? !!headerAt[c] : rowIndex <= (lastHeaderRow[c] ?? -1)
+
+            placed.forEach(({ cell, c }) => {
+                const streamCell = row[c] as StreamCell
+                const value = cell.value ?? cell.content
+                const formula = cell.formula ? this.resolveFormula(cell.formula, r, c, ids, isHeaderAt) : undefined
+
+                streamCell.value = value
+                streamCell.numberFormat = cell.numberFormat
+                streamCell.formula = formula
+
+                if (cell.hyperlink) {
+                    const worksheetCell: XLSX.CellObject = { t: 's', v: value, s: { ...streamCell.style, font: { ...streamCell.style.font } } }
+                    streamCell.hyperlink = this.resolveHyperlink(cell.hyperlink, ids, sheetName)
+                    this.applyHyperlink(worksheetCell, streamCell.hyperlink, cell.styles)
+                    streamCell.style = worksheetCell.s
+                }
+
+                if (cell.richText && typeof value === 'string' && !formula) {
+                    streamCell.richText = cell.richText
+                }
+                streamCell.validation = cell.validation
+                streamCell.comment = cell.comment
+                streamCell.image = cell.image
+            })
+
+            headerAt.forEach((isHeader, c) => {
+                if (isHeader) lastHeaderRow[c] = r
+            })
+
+            // Same heights as the buffered stream processor
+            writer.addRow(row, height ?? autoRowHeight(cells.map(cell => this.measureCell(cell.content, cell.styles))), hidden, level, pageBreak)
+            r++
+        }
+
+        return {
+            startSheet,
+            addRow,
+            get needsDrain() {
+                return output.writableNeedDrain
+            },
+            drain: () => writer.drain(),
+            finish: async (properties: DocumentProperties) => {
+                await writer.finish(properties)
+                return outputPath && !options.output ? outputPath : Buffer.alloc(0)
+            }
+        }
+    }
+
+    /**
+     * One worksheet per table, after the shared post-parse processing
+     */
+    private static createWorkbook(tables: TableData[], options: ConvertOptions): XLSX.WorkBook {
+        const workbook = XLSX.utils.book_new()
+
+        tables.forEach(tableData => {
+            this.prepareTableData(tableData, options)
+
+            // Warn about large tables
+            if (tableData.rows.length > this.MAX_ROWS_WARNING) {
+                console.warn(`⚠️ Large table detected: ${tableData.rows.length} rows. This may take a while and use significant memory.`)
+            }
+
+            // Use optimized processing for large tables
+            const worksheet = tableData.rows.length > this.LARGE_TABLE_THRESHOLD
+                ? this.createLargeTableWorksheet(tableData)
+                : this.createWorksheet(tableData)
+            this.applyHeaderView(worksheet, tableData, options)
+            this.applyConditionalFormats(worksheet, tableData, options)
+            this.applyImageSizes(worksheet)
+            this.applyHiddenRowsAndColumns(worksheet, tableData)
+            this.applyOutline(worksheet, tableData, options)
+            this.applyPageSetup(worksheet, tableData, options)
+            this.applySheetProtection(worksheet, options)
+
+            XLSX.utils.book_append_sheet(workbook, worksheet, tableData.name)
+        })
+
+        return workbook
+    }
+
+    /**
+     * Create a fully styled worksheet from TableData (for streaming)
+     */
+    private static createTableDataWorksheet(tableData: TableData): XLSX.WorkSheet {
+        // Create Excel data with merges
+        const { data: excelData, merges } = this.createExcelData(tableData)
+
+        // Convert to simple data for Excel (this was missing!)
+        const simpleData = this.convertToSimpleData(excelData)
+
+        // Convert to worksheet
+        const worksheet = XLSX.utils.aoa_to_sheet(simpleData)
+
+        // Apply merges
+        if (merges.length > 0) {
+            worksheet['!merges'] = merges
+        }
+
+        // Apply full styling to all rows
+        this.applyStyling(worksheet, tableData, excelData)
+
+        // Calculate column widths using the existing method
+        const fontAt = (rowIndex: number, colIndex: number) => this.getTextFont(this.getCellData(rowIndex, colIndex, tableData, excelData)?.styles)
+        const colWidths = this.calculateOptimizedColumnWidths(simpleData, tableData.maxCols, tableData.columnWidths, fontAt)
+        worksheet['!cols'] = colWidths
+
+        // Calculate row heights (simplified for streaming)
+        const rowHeights = this.calculateRowHeightsForStreaming(excelData, tableData)
+        worksheet['!rows'] = rowHeights
+
+        return worksheet
+    }
+
+    /**
+     * Optimized worksheet creation for large tables (>10k rows)
+     * Uses minimal styling and optimized processing
+     */
+    private static createLargeTableWorksheet(tableData: TableData): XLSX.WorkSheet {
+        console.log(`[TableToXlsx] 🚀 Using optimized processing for large table (${tableData.rows.length} rows)`)
+
+        const simpleData: any[][] = []
+        const merges: any[] = []
+        const numberFormats: { r: number, c: number, z: string }[] = []
+        const formulas: { r: number, c: number, formula: string }[] = []
+        const hyperlinks: { r: number, c: number, hyperlink: NonNullable<TableCell['hyperlink']>, styles: TableCell['styles'] }[] = []
+        const validations: { address: XLSX.CellAddress, validation: DataValidation }[] = []
+        const comments: SheetNote[] = []
+        const images: SheetImage[] = []
+        const richText: { r: number, c: number, runs: RichTextRun[] }[] = []
+        const unlockedCells: string[] = []
+        const ids = new Map<string, XLSX.CellAddress>()
+        // Header cells are rare in large tables, so track their positions sparsely for {above}/{left}
+        const headerPositions = new Set<string>()
+
+        // Process data in chunks to avoid memory issues
+        const chunkSize = 1000
+        let currentRow = 0
+
+        for (let chunkStart = 0; chunkStart < tableData.rows.length; chunkStart += chunkSize) {
+            const chunkEnd = Math.min(chunkStart + chunkSize, tableData.rows.length)
+            const chunk = tableData.rows.slice(chunkStart, chunkEnd)
+
+            // Process chunk
+            chunk.forEach((row, rowIndex) => {
+                const actualRowIndex = chunkStart + rowIndex
+                const rowData: any[] = new Array(tableData.maxCols).fill('')
+                let currentCol = 0
+
+                row.cells.forEach((cell) => {
+                    while (currentCol < tableData.maxCols && rowData[currentCol] !== '') {
+                        currentCol++
+                    }
+
+                    if (currentCol >= tableData.maxCols) return
+
+                    rowData[currentCol] = cell.value ?? cell.content
+                    if (cell.numberFormat) {
+                        numberFormats.push({ r: actualRowIndex, c: currentCol, z: cell.numberFormat })
+                    }
+                    if (cell.formula) {
+                        formulas.push({ r: actualRowIndex, c: currentCol, formula: cell.formula })
+                    }
+                    if (cell.hyperlink) {
+                        hyperlinks.push({ r: actualRowIndex, c: currentCol, hyperlink: cell.hyperlink, styles: cell.styles })
+                    }
+                    if (cell.validation) {
+                        validations.push({ address: { r: actualRowIndex, c: currentCol }, validation: cell.validation })
+                    }
+                    if (cell.comment) {
+                        comments.push({ address: { r: actualRowIndex, c: currentCol }, comment: cell.comment })
+                    }
+                    if (cell.image) {
+                        images.push({ address: { r: actualRowIndex, c: currentCol }, image: cell.image })
+                    }
+                    // Rich text only replaces text values; typed values and formulas keep their cell
+                    if (cell.richText && typeof (cell.value ?? cell.content) === 'string' && !cell.formula) {
+                        richText.push({ r: actualRowIndex, c: currentCol, runs: cell.richText })
+                    }
+                    if (cell.locked === false) {
+                        unlockedCells.push(XLSX.utils.encode_cell({ r: actualRowIndex, c: currentCol }))
+                    }
+                    if (cell.id) {
+                        ids.set(cell.id, { r: actualRowIndex, c: currentCol })
+                    }
+                    if (cell.isHeader) {
+                        for (let r = 0; r < cell.rowspan; r++) {
+                            for (let c = 0; c < cell.colspan; c++) {
+                                headerPositions.add(`${actualRowIndex + r}:${currentCol + c}`)
+                            }
+                        }
+                    }
+
+                    // Track merges for header rows (first 20 rows) or if it's a small merge area
+                    const isHeaderArea = actualRowIndex < 20
+                    const isSmallMerge = (cell.colspan * cell.rowspan) <= 10
+                    if ((isHeaderArea || isSmallMerge) && (cell.colspan > 1 || cell.rowspan > 1)) {
+                        merges.push({
+                            s: { r: actualRowIndex, c: currentCol },
+                            e: { r: actualRowIndex + cell.rowspan - 1, c: currentCol + cell.colspan - 1 }
+                        })
+                    }
+
+                    currentCol += cell.colspan
+                })
+
+                simpleData.push(rowData)
+            })
+
+            // Progress indicator
+            if (chunkStart % (chunkSize * 10) === 0) {
+                console.log(`📊 Processed ${Math.min(chunkEnd, tableData.rows.length)}/${tableData.rows.length} rows`)
+            }
+        }
+
+        const worksheet = XLSX.utils.aoa_to_sheet(simpleData)
+
+        // Apply merges
+        if (merges.length > 0) {
+            worksheet['!merges'] = merges
+        }
+
+        // Apply minimal styling only to header rows
+        this.applyStyling(worksheet, tableData)
+
+        numberFormats.forEach(({ r, c, z }) => {
+            const cell = worksheet[XLSX.utils.encode_cell({ r, c })]
+            if (cell) cell.z = z
+        })
+
+        const isHeaderAt = (r: number, c: number) => headerPositions.has(`${r}:${c}`)
+        formulas.forEach(({ r, c, formula }) => {
+            const cell = worksheet[XLSX.utils.encode_cell({ r, c })]
+            if (cell) cell.f = this.resolveFormula(formula, r, c, ids, isHeaderAt)
+        })
+
+        hyperlinks.forEach(({ r, c, hyperlink, styles }) => {
+            const cell = worksheet[XLSX.utils.encode_cell({ r, c })]
+            if (cell) this.applyHyperlink(cell, this.resolveHyperlink(hyperlink, ids, tableData.name), styles)
+        })
+
+        if (validations.length > 0) {
+            this.getWorksheetExtras(worksheet).dataValidations = validations
+        }
+        if (comments.length > 0) {
+            this.getWorksheetExtras(worksheet).comments = comments
+        }
+        if (images.length > 0) {
+            this.getWorksheetExtras(worksheet).images = images
+        }
+        if (richText.length > 0) {
+            const extras = this.getWorksheetExtras(worksheet)
+            const cells: NonNullable<WorksheetExtras['richText']> = extras.richText || {}
+            richText.forEach(({ r, c, runs }) => {
+                const address = XLSX.utils.encode_cell({ r, c })
+                cells[address] = { runs, font: worksheet[address]?.s?.font }
+            })
+            extras.richText = cells
+        }
+        if (unlockedCells.length > 0) {
+            unlockedCells.forEach(address => {
+                const cell = worksheet[address]
+                if (cell) cell.s = { ...cell.s, protection: { locked: false } }
+            })
+            this.getWorksheetExtras(worksheet).unlockedCells = unlockedCells
+        }
+
+        // Optimized column widths - sample-based
+        const colWidths = this.calculateOptimizedColumnWidths(simpleData, tableData.maxCols, tableData.columnWidths)
+        worksheet['!cols'] = colWidths
+
+        // Skip row height calculation for large tables, only explicit heights and outline levels are applied
+        console.log('⏭️ Skipping row height calculation for performance')
+        if (tableData.rows.some(row => row.height !== undefined || row.level)) {
+            worksheet['!rows'] = tableData.rows.map(row => row.height !== undefined || row.level ? this.rowInfo(row, row.height) : undefined) as XLSX.RowInfo[]
+        }
+
+        return worksheet
+    }
+
+    /**
+     * Write a workbook to file or buffer
+     * @param workbook Workbook holding every converted sheet
+     * @param outputPath Optional output path (if not provided, returns buffer)
+     * @param htmlProperties Document properties of the converted HTML, replaced by `options.properties`
+     */
+    private static writeWorkbook(workbook: XLSX.WorkBook, outputPath?: string, options: ConvertOptions = {}, htmlProperties: DocumentProperties = {}): string | Buffer {
+        const format = this.resolveOutputFormat(outputPath, options.outputFormat)
+        let buffer: Buffer
+
+        this.applyDocumentProperties(workbook, this.resolveDocumentProperties(htmlProperties, options))
+
+        if (format !== 'xlsx') {
+            this.applyImageAltText(workbook)
+        }
+        this.applyPrintTitles(workbook)
+
+        switch (format) {
+            case 'xlsx': {
+                buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
+                if (workbook.SheetNames.some(name => workbook.Sheets[name]['!extras'])) {
+                    buffer = this.applyWorksheetExtras(buffer, workbook, options)
+                }
+                break
+            }
+            case 'csv':
+            case 'tsv':
+                buffer = this.writeDelimitedText(workbook, format, options.csv)
+                break
+            default:
+                // Package extras only exist in xlsx; the other formats keep plain values
+                buffer = XLSX.write(workbook, { type: 'buffer', bookType: format === 'xls' ? 'biff8' : format })
+        }
+
+        if (outputPath) {
+            fs.writeFileSync(outputPath, buffer)
+            console.log(`Excel file created successfully: ${outputPath} (${workbook.SheetNames.length} sheet(s))`)
+            return outputPath
+        }
+        return buffer
+    }
+
+    /**
+     * Format to write: the requested one, checked against the path extension, or the one the extension names
+     */
+    private static resolveOutputFormat(outputPath: string | undefined, requested?: OutputFormat): OutputFormat {
+        const extension = outputPath?.match(/\.([^./\\]+)$/)?.[1].toLowerCase()
+        const named = (Object.keys(this.OUTPUT_EXTENSIONS) as OutputFormat[]).find(format => this.OUTPUT_EXTENSIONS[format].includes(extension || ''))
+
+        if (!requested) {
+            return named || 'xlsx'
+        }
+        if (!this.OUTPUT_EXTENSIONS[requested]) {
+            throw new Error(`Unsupported outputFormat "${requested}"`)
+        }
+        if (outputPath && named !== requested) {
+            throw new Error(`Output path "${outputPath}" does not match outputFormat "${requested}" (expected .${this.OUTPUT_EXTENSIONS[requested].join(' or .')})`)
+        }
+        return requested
+    }
+
+    /**
+     * One worksheet as delimited text (csv/tsv) of its formatted cell values
+     */
+    private static writeDelimitedText(workbook: XLSX.WorkBook, format: 'csv' | 'tsv', options: CsvOptions = {}): Buffer {
+        const names = workbook.SheetNames
+        const index = typeof options.sheet === 'string' ? names.indexOf(options.sheet) : options.sheet ?? 0
+        if (!names[index]) {
+            throw new Error(`Worksheet ${JSON.stringify(options.sheet)} not found`)
+        }
+        if (options.sheet === undefined && names.length > 1) {
+            console.warn(`⚠️ ${format.toUpperCase()} holds a single worksheet: writing "${names[0]}" of ${names.length} sheets`)
+        }
+
+        const sheet = workbook.Sheets[names[index]]
+        const delimiter = options.delimiter ?? (format === 'tsv' ? '\t' : ',')
+        const lineEnding = options.lineEnding ?? '\n'
+
+        // Covered cells of merges point at the merge's top-left cell
+        const mergeOrigins = new Map<string, string>()
+        ;(sheet['!merges'] || []).forEach(merge => {
+            const origin = XLSX.utils.encode_cell(merge.s)
+            for (let r = merge.s.r; r <= merge.e.r; r++) {
+                for (let c = merge.s.c; c <= merge.e.c; c++) {
+                    const address = XLSX.utils.encode_cell({ r, c })
+                    if (address !== origin) mergeOrigins.set(address, origin)
+                }
+            }
+        })
+
+        const cellText = (address: string): string => {
+            const origin = mergeOrigins.get(address)
+            if (origin) {
+                return options.mergedCells === 'repeat' ? cellText(origin) : ''
+            }
+            const cell: XLSX.CellObject | undefined = sheet[address]
+            return cell && cell.v !== undefined ? XLSX.utils.format_cell(cell) : ''
+        }
+
+        const quote = (text: string): string => {
+            const needsQuotes = options.quote === 'always' || text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim()
+            return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text
+        }
+
+        const lines: string[] = []
+        if (sheet['!ref']) {
+            const range = XLSX.utils.decode_range(sheet['!ref'])
+            for (let r = range.s.r; r <= range.e.r; r++) {
+                const fields: string[] = []
+                for (let c = range.s.c; c <= range.e.c; c++) {
+                    fields.push(quote(cellText(XLSX.utils.encode_cell({ r, c }))))
+                }
+                lines.push(fields.join(delimiter))
+            }
+        }
+
+        return Buffer.from(`${options.bom ? '\uFEFF' : ''}${lines.join(lineEnding)}${lines.length > 0 ? lineEnding : ''}`, 'utf8')
+    }
+
+    /**
+     * Frozen pane and AutoFilter from the sheet's header rows and the freezePanes/autoFilter options
+     * An AutoFilter without a fixed range starts on the last header row and ends on the last row
+     */
+    private static resolveHeaderView(headerRows: number, options: ConvertOptions): Pick<StreamSheetOptions, 'freeze' | 'autoFilter'> {
+        const view: Pick<StreamSheetOptions, 'freeze' | 'autoFilter'> = {}
+
+        if (options.freezePanes) {
+            const rows = options.freezePanes === true ? headerRows : options.freezePanes.rows ?? headerRows
+            const columns = options.freezePanes === true ? 0 : options.freezePanes.columns ?? 0
+            if (rows > 0 || columns > 0) {
+                view.freeze = { rows, columns }
+            }
+        }
+
+        if (typeof options.autoFilter === 'string') {
+            view.autoFilter = options.autoFilter
+        } else if (options.autoFilter && headerRows > 0) {
+            view.autoFilter = { fromRow: headerRows - 1 }
+        } else if (options.autoFilter) {
+            console.warn('⚠️ No header rows detected, skipping AutoFilter')
+        }
+
+        return view
+    }
+
+    private static applyHeaderView(worksheet: XLSX.WorkSheet, tableData: TableData, options: ConvertOptions) {
+        const { freeze, autoFilter } = this.resolveHeaderView(tableData.headerRows || 0, options)
+
+        if (freeze) {
+            this.getWorksheetExtras(worksheet).freeze = freeze
+        }
+
+        if (typeof autoFilter === 'string') {
+            worksheet['!autofilter'] = { ref: autoFilter }
+        } else if (autoFilter && worksheet['!ref']) {
+            const range = XLSX.utils.decode_range(worksheet['!ref'])
+            range.s.r = autoFilter.fromRow
+            range.e.r = Math.max(range.e.r, autoFilter.fromRow)
+            worksheet['!autofilter'] = { ref: XLSX.utils.encode_range(range) }
+        }
+    }
+
+    /**
+     * Conditional formats over the data rows below the header
+     */
+    private static applyConditionalFormats(worksheet: XLSX.WorkSheet, tableData: TableData, options: ConvertOptions) {
+        const headerRows = tableData.headerRows || 0
+        const rules = this.resolveConditionalFormats(tableData.conditionalFormats, this.getColumnHeaders(tableData.rows, headerRows), options)
+        if (rules.length === 0 || !worksheet['!ref']) return
+
+        const range = XLSX.utils.decode_range(worksheet['!ref'])
+        const ranges = conditionalFormatRanges(rules, headerRows, range.e.r, range.e.c)
+        if (ranges.length > 0) {
+            this.getWorksheetExtras(worksheet).conditionalFormats = ranges
+        }
+    }
+
+    /**
+     * Grow the rows and columns under each image until it fits; in a merged range the first row and column grow
+     */
+    private static applyImageSizes(worksheet: XLSX.WorkSheet) {
+        const images: SheetImage[] | undefined = worksheet['!extras']?.images
+        if (!images) return
+
+        const cols: XLSX.ColInfo[] = worksheet['!cols'] = worksheet['!cols'] || []
+        const rows: XLSX.RowInfo[] = worksheet['!rows'] = worksheet['!rows'] || []
+        const columnPixels = (c: number) => cols[c]?.wch !== undefined ? columnWidthToPixels(cols[c].wch as number) : DEFAULT_COLUMN_PX
+        const rowPixels = (r: number) => rows[r]?.hpt !== undefined ? (rows[r].hpt as number) / 0.75 : DEFAULT_ROW_PX
+
+        images.forEach(({ address, image }) => {
+            const end = worksheet['!merges']?.find(range => range.s.r === address.r && range.s.c === address.c)?.e || address
+
+            let width = 0
+            for (let c = address.c; c <= end.c; c++) width += columnPixels(c)
+            if (width < image.width) {
+                cols[address.c] = { ...cols[address.c], wch: pixelsToColumnWidth(columnPixels(address.c) + image.width - width) }
+            }
+
+            let height = 0
+            for (let r = address.r; r <= end.r; r++) height += rowPixels(r)
+            if (height < image.height) {
+                rows[address.r] = { ...rows[address.r], hpt: pixelsToPoints(rowPixels(address.r) + image.height - height) }
+            }
+        })
+    }
+
+    /**
+     * Cells with an image show its alt text in formats without drawings, unless they have text of their own
+     */
+    private static applyImageAltText(workbook: XLSX.WorkBook) {
+        workbook.SheetNames.forEach(name => {
+            const worksheet = workbook.Sheets[name]
+            const images: SheetImage[] = worksheet['!extras']?.images || []
+
+            images.forEach(({ address, image }) => {
+                const ref = XLSX.utils.encode_cell(address)
+                const cell: XLSX.CellObject | undefined = worksheet[ref]
+                if (image.alt && (cell?.v === undefined || cell.v === '')) {
+                    worksheet[ref] = { ...cell, t: 's', v: image.alt }
+                }
+            })
+        })
+    }
+
+    /**
+     * Hide the rows and columns marked with data-xlsx-hidden
+     */
+    private static applyHiddenRowsAndColumns(worksheet: XLSX.WorkSheet, tableData: TableData) {
+        tableData.rows.forEach((row, r) => {
+            if (!row.hidden) return
+            const rows: XLSX.RowInfo[] = worksheet['!rows'] = worksheet['!rows'] || []
+            rows[r] = { ...rows[r], hidden: true }
+        })
+
+        tableData.hiddenColumns?.forEach(c => {
+            const cols: XLSX.ColInfo[] = worksheet['!cols'] = worksheet['!cols'] || []
+            cols[c] = { wch: autoColumnWidth(0), ...cols[c], hidden: true }
+        })
+    }
+
+    /**
+     * Outline details xlsx-js-style does not write: the sheet's deepest levels, the collapsed summaries,
+     * and its stray `level` attribute on <col> removed
+     */
+    private static applyOutlineXml(sheetXml: string, outline: NonNullable<WorksheetExtras['outline']>): string {
+        const levels = (outline.rowLevel ? ` outlineLevelRow="${outline.rowLevel}"` : '') + (outline.columnLevel ? ` outlineLevelCol="${outline.columnLevel}"` : '')
+        const collapsedRows = new Set(outline.collapsedRows.map(r => String(r + 1)))
+        const collapsedColumns = new Set(outline.collapsedColumns.map(c => String(c + 1)))
+
+        const xml = sheetXml
+            .replace(/<col\b[^>]*>/g, col => {
+                const cleaned = col.replace(/\slevel="\d+"/, '')
+                return collapsedColumns.has(cleaned.match(/\bmin="(\d+)"/)?.[1] || '') ? cleaned.replace(/(\/?>)$/, ' collapsed="1"$1') : cleaned
+            })
+            .replace(/<row r="(\d+)"/g, (row, r: string) => collapsedRows.has(r) ? `${row} collapsed="1"` : row)
+
+        return /<sheetFormatPr\b/.test(xml)
+            ? xml.replace(/<sheetFormatPr\b/, `$&${levels}`)
+            : insertSheetElement(xml, 'sheetFormatPr', `<sheetFormatPr defaultRowHeight="15"${levels}/>`)
+    }
+
+    /**
+     * Column outline levels, the summary position and, for collapsed outlines, the hidden groups;
+     * row levels are set with the row heights
+     */
+    private static applyOutline(worksheet: XLSX.WorkSheet, tableData: TableData, options: ConvertOptions) {
+        const rowLevels = tableData.rows.map(row => row.level || 0)
+        const columnLevels = tableData.columnLevels || []
+        if (!rowLevels.some(Boolean) && !columnLevels.some(Boolean)) return
+
+        const { summaryBelow, summaryRight, collapsed } = this.resolveOutline(columnLevels, options)
+        const rows: XLSX.RowInfo[] = worksheet['!rows'] = worksheet['!rows'] || []
+        const cols: XLSX.ColInfo[] = worksheet['!cols'] = worksheet['!cols'] || []
+        worksheet['!outline'] = { above: !summaryBelow, left: !summaryRight }
+
+        columnLevels.forEach((level, c) => {
+            if (level) cols[c] = { ...cols[c], level }
+        })
+
+        if (collapsed) {
+            rowLevels.forEach((level, r) => {
+                if (level) rows[r] = { ...rows[r], hidden: true }
+            })
+            columnLevels.forEach((level, c) => {
+                if (level) cols[c] = { wch: autoColumnWidth(0), ...cols[c], hidden: true }
+            })
+        }
+
+        this.getWorksheetExtras(worksheet).outline = {
+            rowLevel: rowLevels.reduce((deepest, level) => Math.max(deepest, level), 0),
+            columnLevel: columnLevels.reduce((deepest, level) => Math.max(deepest, level), 0),
+            collapsedRows: collapsed ? outlineSummaries(rowLevels, !summaryBelow) : [],
+            collapsedColumns: collapsed ? outlineSummaries(columnLevels, !summaryRight) : []
+        }
+    }
+
+    private static resolveOutline(columnLevels: number[] | undefined, options: ConvertOptions): NonNullable<StreamSheetOptions['outline']> {
+        return {
+            summaryBelow: options.outline?.summaryRows === 'below',
+            summaryRight: options.outline?.summaryColumns === 'right',
+            collapsed: !!options.outline?.collapsed,
+            columnLevels
+        }
+    }
+
+    /**
+     * Print settings of the page option, manual page breaks and the header rows repeated on every page;
+     * the margins go through xlsx-js-style, the rest into the package
+     */
+    private static applyPageSetup(worksheet: XLSX.WorkSheet, tableData: TableData, options: ConvertOptions) {
+        const breaks = tableData.rows.flatMap((row, r) => row.pageBreak && r > 0 ? [r] : [])
+        const { page, printTitleRows } = this.resolvePageSetup(tableData.headerRows || 0, options)
+        if (!page && breaks.length === 0) return
+
+        if (page) {
+            worksheet['!margins'] = pageMargins(page)
+        }
+        this.getWorksheetExtras(worksheet).page = { setup: page, breaks, printTitleRows }
+    }
+
+    private static resolvePageSetup(headerRows: number, options: ConvertOptions): Pick<StreamSheetOptions, 'page' | 'printTitleRows'> {
+        const page = options.page
+        return {
+            page,
+            printTitleRows: page && page.printTitles !== false && headerRows > 0 ? headerRows : undefined
+        }
+    }
+
+    /**
+     * Workbook names repeating the header rows of each sheet on its printed pages
+     */
+    private static applyPrintTitles(workbook: XLSX.WorkBook) {
+        workbook.SheetNames.forEach((name, sheetIndex) => {
+            const rows: number | undefined = workbook.Sheets[name]['!extras']?.page?.printTitleRows
+            if (!rows) return
+
+            workbook.Workbook = workbook.Workbook || {}
+            workbook.Workbook.Names = workbook.Workbook.Names || []
+            workbook.Workbook.Names.push({ Name: '_xlnm.Print_Titles', Sheet: sheetIndex, Ref: printTitlesRef(name, rows) })
+        })
+    }
+
+    private static applySheetProtection(worksheet: XLSX.WorkSheet, options: ConvertOptions) {
+        const protection = this.resolveProtection(options)
+        if (protection) {
+            this.getWorksheetExtras(worksheet).protection = protection
+        }
+    }
+
+    private static resolveProtection(options: ConvertOptions): SheetProtection | undefined {
+        return options.protection === true ? {} : options.protection || undefined
+    }
+
+    /**
+     * Document properties of an HTML document: its <title> and <meta name="author|description|keywords">
+     */
+    private static parseDocumentProperties($: cheerio.CheerioAPI): DocumentProperties {
+        const meta = (name: string) => $('meta').filter((_, element) => $(element).attr('name')?.toLowerCase() === name).first().attr('content')?.trim() || undefined
+        return {
+            title: $('head > title').first().text().trim() || undefined,
+            author: meta('author'),
+            description: meta('description'),
+            keywords: meta('keywords')
+        }
+    }
+
+    private static resolveDocumentProperties(htmlProperties: DocumentProperties | undefined, options: ConvertOptions): DocumentProperties {
+        const properties = { ...htmlProperties, ...options.properties }
+        return { ...properties, created: properties.created || new Date() }
+    }
+
+    private static applyDocumentProperties(workbook: XLSX.WorkBook, properties: DocumentProperties) {
+        workbook.Props = {
+            ...workbook.Props,
+            Title: properties.title,
+            Subject: properties.subject,
+            Author: properties.author,
+            Company: properties.company,
+            Keywords: keywordsText(properties.keywords),
+            Comments: properties.description,
+            CreatedDate: properties.created
+        }
+        if (properties.custom) {
+            workbook.Custprops = { ...workbook.Custprops, ...properties.custom }
+        }
+    }
+
+    private static resolveNoteSize(options: ConvertOptions): { width: number, height: number } {
+        const comments = options.comments || {}
+        return { width: comments.width ?? DEFAULT_NOTE_SIZE.width, height: comments.height ?? DEFAULT_NOTE_SIZE.height }
+    }
+
+    private static getWorksheetExtras(worksheet: XLSX.WorkSheet): WorksheetExtras {
+        if (!worksheet['!extras']) {
+            worksheet['!extras'] = {}
+        }
+        return worksheet['!extras']
+    }
+
+    /**
+     * Write the sheet features xlsx-js-style has no support for into the generated package
+     */
+    private static applyWorksheetExtras(buffer: Buffer, workbook: XLSX.WorkBook, options: ConvertOptions): Buffer {
+        const xlsxPackage = XlsxPackage.fromBuffer(buffer)
+        const media = new MediaStore((mediaPath, data) => xlsxPackage.write(mediaPath, data))
+        // Conditional format styles, shared by all sheets
+        const dxfs = new Map<string, number>()
+        // Unlocked copies of the cell formats of unlocked cells, by the index of the format they copy
+        const cellXfs = cellFormats(xlsxPackage.read('xl/styles.xml') || '')
+        const unlockedFormats = new Map<string, number>()
+        const unlockedFormatId = (formatId: string) => {
+            if (!unlockedFormats.has(formatId)) unlockedFormats.set(formatId, cellXfs.length + unlockedFormats.size)
+            return unlockedFormats.get(formatId) as number
+        }
+        const dxfId = (style: ConditionalStyle) => {
+            const xml = dxfXml(style)
+            if (!dxfs.has(xml)) dxfs.set(xml, dxfs.size)
+            return dxfs.get(xml) as number
+        }
+
+        workbook.SheetNames.forEach((name, sheetIndex) => {
+            const extras: WorksheetExtras | undefined = workbook.Sheets[name]['!extras']
+            if (!extras) return
+
+            const path = xlsxPackage.worksheetPath(sheetIndex)
+            let sheetXml = xlsxPackage.read(path) || ''
+
+            const richText = extras.richText
+            if (richText) {
+                sheetXml = replaceCells(sheetXml, (address, attributes) => {
+                    const cell = richText[address]
+                    if (!cell) return undefined
+                    return `<c r="${address}"${attributes.replace(/\s+t="[^"]*"/, '')} t="inlineStr"><is>${richTextXml(cell.runs, cell.font)}</is></c>`
+                })
+            }
+
+            if (extras.outline) {
+                sheetXml = this.applyOutlineXml(sheetXml, extras.outline)
+            }
+
+            if (extras.unlockedCells) {
+                const unlocked = new Set(extras.unlockedCells)
+                sheetXml = replaceCells(sheetXml, (address, attributes, body) => {
+                    if (!unlocked.has(address)) return undefined
+                    const formatId = unlockedFormatId(attributes.match(/\bs="(\d+)"/)?.[1] || '0')
+                    return `<c r="${address}"${attributes.replace(/\s+s="\d+"/, '')} s="${formatId}"${body ? `>${body}</c>` : '/>'}`
+                })
+            }
+
+            if (extras.protection) {
+                sheetXml = insertSheetElement(sheetXml, 'sheetProtection', sheetProtectionXml(extras.protection))
+            }
+
+            if (extras.freeze) {
+                const sheetView = frozenSheetViewXml(extras.freeze.rows, extras.freeze.columns)
+                sheetXml = /<sheetViews>/.test(sheetXml)
+                    ? sheetXml.replace(/<sheetView\b[^>]*?(?:\/>|>[\s\S]*?<\/sheetView>)/, sheetView)
+                    : sheetXml.replace(/(<dimension\b[^>]*\/>)|(?=<sheetFormatPr|<cols|<sheetData)/, `$1<sheetViews>${sheetView}</sheetViews>`)
+            }
+
+            if (extras.conditionalFormats) {
+                sheetXml = insertSheetElement(sheetXml, 'conditionalFormatting', conditionalFormattingXml(extras.conditionalFormats, dxfId))
+            }
+
+            if (extras.dataValidations) {
+                sheetXml = insertSheetElement(sheetXml, 'dataValidations', dataValidationsXml(extras.dataValidations))
+            }
+
+            if (extras.page) {
+                const { setup, breaks } = extras.page
+                if (setup) {
+                    const { printOptions, pageSetup } = pageSetupXml(setup)
+                    if (fitsToPage(setup)) {
+                        sheetXml = appendSheetProperties(sheetXml, '<pageSetUpPr fitToPage="1"/>')
+                    }
+                    sheetXml = insertSheetElement(sheetXml, 'printOptions', printOptions)
+                    sheetXml = insertSheetElement(sheetXml, 'pageSetup', pageSetup)
+                }
+                sheetXml = insertSheetElement(sheetXml, 'rowBreaks', rowBreaksXml(breaks))
+            }
+
+            if (extras.comments) {
+                const sheetNumber = sheetIndex + 1
+                const cols: XLSX.ColInfo[] = workbook.Sheets[name]['!cols'] || []
+                xlsxPackage.write(`xl/comments${sheetNumber}.xml`, commentsXml(extras.comments))
+                xlsxPackage.write(`xl/drawings/vmlDrawing${sheetNumber}.vml`,
+                    vmlDrawingXml(extras.comments, sheetNumber, this.resolveNoteSize(options), c => cols[c]?.wch ?? cols[c]?.width))
+                xlsxPackage.addContentType(`xl/comments${sheetNumber}.xml`, COMMENTS_CONTENT_TYPE)
+                xlsxPackage.addContentType('vml', VML_CONTENT_TYPE)
+
+                xlsxPackage.addRelationship(path, COMMENTS_RELATIONSHIP, `../comments${sheetNumber}.xml`)
+                const drawingId = xlsxPackage.addRelationship(path, VML_RELATIONSHIP, `../drawings/vmlDrawing${sheetNumber}.vml`)
+                sheetXml = insertSheetElement(sheetXml, 'legacyDrawing', `<legacyDrawing r:id="${drawingId}"/>`)
+            }
+
+            if (extras.images) {
+                const drawingPath = `xl/drawings/drawing${sheetIndex + 1}.xml`
+                const parts = drawingParts(extras.images, image => media.path(image))
+                xlsxPackage.write(drawingPath, parts.drawing)
+                xlsxPackage.write(drawingPath.replace('drawings/', 'drawings/_rels/') + '.rels', parts.relationships)
+                xlsxPackage.addContentType(drawingPath, DRAWING_CONTENT_TYPE)
+
+                const relationshipId = xlsxPackage.addRelationship(path, DRAWING_RELATIONSHIP, `../drawings/drawing${sheetIndex + 1}.xml`)
+                sheetXml = insertSheetElement(sheetXml, 'drawing', `<drawing r:id="${relationshipId}"/>`)
+            }
+
+            xlsxPackage.write(path, sheetXml)
+        })
+
+        media.formats.forEach(format => xlsxPackage.addContentType(format, IMAGE_CONTENT_TYPES[format]))
+
+        if (unlockedFormats.size > 0) {
+            const unlocked = Array.from(unlockedFormats.keys(), formatId => unlockedFormatXml(cellXfs[parseInt(formatId)] || cellXfs[0]))
+            xlsxPackage.write('xl/styles.xml', replaceCellFormats(xlsxPackage.read('xl/styles.xml') || '', [...cellXfs, ...unlocked]))
+        }
+
+        if (dxfs.size > 0) {
+            const stylesXml = xlsxPackage.read('xl/styles.xml') || ''
+            const dxfsXml = `<dxfs count="${dxfs.size}">${Array.from(dxfs.keys()).join('')}</dxfs>`
+            xlsxPackage.write('xl/styles.xml', /<dxfs\b[^>]*\/>/.test(stylesXml)
+                ? stylesXml.replace(/<dxfs\b[^>]*\/>/, dxfsXml)
+                : stylesXml.replace(/(?=<tableStyles|<colors|<extLst|<\/styleSheet>)/, dxfsXml))
+        }
+
+        return xlsxPackage.toBuffer()
+    }
+
+    /**
+     * Parse every top-level table in the document into its own TableData
+     */
+    private static async parseHtmlTables($: cheerio.CheerioAPI, options: ConvertOptions = {}): Promise<TableData[]> {
+        const cascade = this.createStyleCascade($, options)
+        const tables = this.findTables($, cascade)
+
+        if (tables.length === 0) {
+            throw new Error('No table found in HTML')
+        }
+
+        const usedNames = new Set<string>()
+
+        return tables.map((tableElement, tableIndex) => {
+            const table = $(tableElement)
+            const parsedRows: TableRow[] = []
+            let maxCols = 0
+
+            // Only rows owned by this table, not rows of nested tables
+            const rows = table.find('tr').filter((_, rowElement) => $(rowElement).closest('table')[0] === tableElement).toArray()
+
+            // Hidden and ignored rows are dropped, rowspans reaching over them shrink
+            const excludedRows = rows.map(rowElement => this.isRowExcluded($(rowElement), cascade))
+            const cols = this.parseCols($, table, cascade)
+            const filterColumns = this.createColumnFilter(cols)
+
+            // Header: the rows of <thead>, or without one the leading rows made of <th> cells only
+            const hasHead = rows.some((rowElement, index) => !excludedRows[index] && $(rowElement).parent().is('thead'))
+            let headerRows = 0
+
+            rows.forEach((rowElement, index) => {
+                if (excludedRows[index]) return
+
+                const rowIndex = parsedRows.length
+                const cells = $(rowElement).children('th, td').filter((_, cellElement) => !this.isExcluded(cellElement, cascade))
+                const parsedCells: TableCell[] = []
+
+                const isHeaderRow = hasHead
+                    ? $(rowElement).parent().is('thead')
+                    : cells.length > 0 && cells.filter('td').length === 0
+                if (isHeaderRow && headerRows === rowIndex) {
+                    headerRows++
+                }
+
+                cells.each((cellIndex, cellElement) => {
+                    const $cell = $(cellElement)
+                    const isHeader = $cell.prop('tagName')?.toLowerCase() === 'th' || false
+
+                    const cell = this.parseCell($cell, isHeader, cascade, options)
+                    cell.rowspan -= excludedRows.slice(index + 1, index + cell.rowspan).filter(Boolean).length
+                    parsedCells.push(cell)
+                })
+
+                const keptCells = filterColumns(parsedCells)
+                parsedRows.push({ cells: keptCells, ...this.parseRowLayout($(rowElement), cascade) })
+                maxCols = Math.max(maxCols, keptCells.length)
+            })
+
+            return {
+                rows: parsedRows,
+                maxCols,
+                name: this.sanitizeSheetName(this.getSheetName(table), tableIndex, usedNames),
+                ...this.getColumnLayout(cols, parsedRows, headerRows),
+                headerRows,
+                conditionalFormats: this.getDeclaredConditionalFormats(table, cols)
+            }
+        })
+    }
+
+    /**
+     * Columns declared by <col> elements, one entry per spanned column
+     * A <colgroup> without <col> children stands for its own `span` columns
+     */
+    private static parseCols($: cheerio.CheerioAPI, table: cheerio.Cheerio<any>, cascade: StyleCascade): TableColumn[] {
+        const columns: TableColumn[] = []
+
+        table.children('colgroup, col').each((_, element) => {
+            const children = $(element).children('col').toArray()
+            const groupExcluded = element.name === 'colgroup' && this.isExcluded(element, cascade)
+            const groupHidden = element.name === 'colgroup' && $(element).attr('data-xlsx-hidden') !== undefined
+            const groupLevel = element.name === 'colgroup' ? this.parseOutlineLevel($(element)) : undefined
+            const groupFormats = element.name === 'colgroup' && children.length > 0 ? parseConditionalFormats($(element).attr('data-xlsx-cf') || '') : []
+
+            const cols = element.name === 'colgroup' && children.length > 0 ? children : [element]
+            cols.forEach(col => {
+                const $col = $(col)
+                const span = Math.max(1, parseInt($col.attr('span') || '1') || 1)
+                const column: TableColumn = {
+                    width: this.parseWidth($col, cascade),
+                    hidden: groupHidden || $col.attr('data-xlsx-hidden') !== undefined,
+                    level: (col !== element ? this.parseOutlineLevel($col) : undefined) ?? groupLevel,
+                    excluded: groupExcluded || (col !== element && this.isExcluded(col, cascade)),
+                    conditionalFormats: [...groupFormats, ...parseConditionalFormats($col.attr('data-xlsx-cf') || '')]
+                }
+                for (let i = 0; i < span; i++) {
+                    columns.push(column)
+                }
+            })
+        })
+
+        return columns
+    }
+
+    /**
+     * Row by row filter that removes the excluded columns: cells lose the excluded columns they span
+     * and disappear when they cover nothing else. Rowspans are followed from one call to the next
+     */
+    private static createColumnFilter(columns: TableColumn[]): (cells: TableCell[]) => TableCell[] {
+        if (!columns.some(column => column.excluded)) {
+            return cells => cells
+        }
+
+        // Rows each column stays covered by rowspans from rows above
+        let spans: number[] = []
+
+        return cells => {
+            const covered = spans.map(rows => rows > 0)
+            spans = spans.map(rows => Math.max(0, rows - 1))
+
+            const kept: TableCell[] = []
+            let c = 0
+            cells.forEach(cell => {
+                while (covered[c]) c++
+
+                let colspan = 0
+                for (let i = c; i < c + cell.colspan; i++) {
+                    if (!columns[i]?.excluded) colspan++
+                    if (cell.rowspan > 1) spans[i] = cell.rowspan - 1
+                }
+                if (colspan > 0) {
+                    kept.push(colspan === cell.colspan ? cell : { ...cell, colspan })
+                }
+                c += cell.colspan
+            })
+            return kept
+        }
+    }
+
+    /**
+     * Column widths, hidden columns and outline levels: the table's <col> elements (excluded ones removed),
+     * then single-column header cells. Widths are undefined when nothing sets one,
+     * otherwise there is an entry (possibly undefined) per header column
+     */
+    private static getColumnLayout(columns: TableColumn[], rows: TableRow[], headerRows: number): Pick<TableData, 'columnWidths' | 'hiddenColumns' | 'columnLevels'> {
+        const cols = columns.filter(column => !column.excluded)
+        const cellWidths: (number | undefined)[] = []
+        const hidden = new Set(cols.flatMap((column, c) => column.hidden ? [c] : []))
+
+        // Rowspans from rows above push header cells to the right
+        const coveredUntil: number[] = []
+        let columnCount = cols.length
+        rows.slice(0, headerRows).forEach((row, rowIndex) => {
+            let c = 0
+            row.cells.forEach(cell => {
+                while ((coveredUntil[c] ?? -1) >= rowIndex) c++
+
+                if (cell.colspan === 1 && cell.width !== undefined) {
+                    cellWidths[c] = Math.max(cellWidths[c] ?? 0, cell.width)
+                }
+                if (cell.colspan === 1 && cell.hidden) {
+                    hidden.add(c)
+                }
+                for (let i = 0; i < cell.colspan; i++) {
+                    coveredUntil[c + i] = rowIndex + cell.rowspan - 1
+                }
+                c += cell.colspan
+            })
+            columnCount = Math.max(columnCount, c)
+        })
+
+        const widths = Array.from({ length: columnCount }, (_, c) => cols[c]?.width ?? cellWidths[c])
+        return {
+            columnWidths: widths.some(width => width !== undefined) ? widths : undefined,
+            hiddenColumns: hidden.size > 0 ? Array.from(hidden).sort((a, b) => a - b) : undefined,
+            columnLevels: cols.some(column => column.level) ? cols.map(column => column.level || 0) : undefined
+        }
+    }
+
+    /**
+     * Conditional formats declared with data-xlsx-cf: the table's cover every column, a <col>'s its own column
+     */
+    private static getDeclaredConditionalFormats(table: cheerio.Cheerio<any>, columns: TableColumn[]): ConditionalFormatRule[] | undefined {
+        const rules: ConditionalFormatRule[] = parseConditionalFormats(table.attr('data-xlsx-cf') || '').map(format => ({ format }))
+
+        columns.filter(column => !column.excluded).forEach((column, c) => {
+            column.conditionalFormats.forEach(format => rules.push({ format, column: c }))
+        })
+
+        return rules.length > 0 ? rules : undefined
+    }
+
+    /**
+     * Text of the lowest header cell above each column
+     */
+    private static getColumnHeaders(rows: TableRow[], headerRows: number): string[] {
+        const headers: string[] = []
+
+        // Rowspans from rows above push header cells to the right
+        const coveredUntil: number[] = []
+        rows.slice(0, headerRows).forEach((row, rowIndex) => {
+            let c = 0
+            row.cells.forEach(cell => {
+                while ((coveredUntil[c] ?? -1) >= rowIndex) c++
+
+                for (let i = 0; i < cell.colspan; i++) {
+                    headers[c + i] = cell.content.trim()
+                    coveredUntil[c + i] = rowIndex + cell.rowspan - 1
+                }
+                c += cell.colspan
+            })
+        })
+
+        return headers
+    }
+
+    /**
+     * Rules declared in the HTML followed by the conditionalFormats option, whose keys
+     * are matched against the column headers, then read as column letters
+     */
+    private static resolveConditionalFormats(declared: ConditionalFormatRule[] = [], columnHeaders: string[], options: ConvertOptions): ConditionalFormatRule[] {
+        const rules = [...declared]
+
+        Object.entries(options.conditionalFormats || {}).forEach(([key, value]) => {
+            const formats = (Array.isArray(value) ? value : [value])
+                .flatMap(format => typeof format === 'string' ? parseConditionalFormats(format) : [format])
+
+            let columns: (number | undefined)[] = columnHeaders.flatMap((header, c) => header === key.trim() ? [c] : [])
+            if (key === '*') {
+                columns = [undefined]
+            } else if (columns.length === 0 && /^[A-Z]{1,3}$/.test(key)) {
+                columns = [XLSX.utils.decode_col(key)]
+            }
+
+            if (columns.length === 0) {
+                console.warn(`⚠️ No column "${key}" found, skipping its conditional formats`)
+                return
+            }
+            columns.forEach(column => formats.forEach(format => rules.push({ format, column })))
+        })
+
+        return rules
+    }
+
+    /**
+     * Whether an element is left out of the workbook: data-xlsx-ignore, or display: none and the hidden
+     * attribute unless data-xlsx-only marks it as content that only appears in the export
+     */
+    private static isExcluded(element: any, cascade: StyleCascade): boolean {
+        const attribs = element.attribs || {}
+        if ('data-xlsx-ignore' in attribs) return true
+        if ('data-xlsx-only' in attribs) return false
+        return 'hidden' in attribs || this.lastDeclaration(cascade.declarationsFor(element), 'display')?.trim().toLowerCase() === 'none'
+    }
+
+    /**
+     * A row is dropped when it or its <thead>/<tbody>/<tfoot> is excluded
+     */
+    private static isRowExcluded($row: cheerio.Cheerio<any>, cascade: StyleCascade): boolean {
+        const section = $row.parent()
+        return this.isExcluded($row[0], cascade) || (section.is('thead, tbody, tfoot') && this.isExcluded(section[0], cascade))
+    }
+
+    /**
+     * Explicit width of a cell or <col> in characters: the width attribute or CSS width, or a larger CSS min-width
+     * Percentages refer to the table's width
+     */
+    private static parseWidth($element: cheerio.Cheerio<any>, cascade: StyleCascade, fontSize?: number): number | undefined {
+        const declarations = cascade.declarationsFor($element[0])
+        const values = [this.lastDeclaration(declarations, 'width') ?? $element.attr('width'), this.lastDeclaration(declarations, 'min-width')]
+        if (!values.some(Boolean)) return undefined
+
+        const tableWidth = values.some(value => value?.trim().endsWith('%')) ? this.getTableWidth($element.closest('table'), cascade) : undefined
+        const pixels = values.map(value => parseSize(value, fontSize, tableWidth)).filter((value): value is number => value !== undefined)
+        return pixels.length > 0 ? pixelsToColumnWidth(Math.max(...pixels)) : undefined
+    }
+
+    /**
+     * Width of a table in pixels, for percentages of its columns
+     */
+    private static getTableWidth(table: cheerio.Cheerio<any>, cascade: StyleCascade): number {
+        const value = (table[0] && this.lastDeclaration(cascade.declarationsFor(table[0]), 'width')) ?? table.attr('width')
+        return parseSize(value) ?? DEFAULT_TABLE_WIDTH_PX
+    }
+
+    /**
+     * Explicit height of a row in points (the height attribute or CSS height, or a larger CSS min-height),
+     * whether data-xlsx-hidden on the row or its section hides it, its outline level, and whether it starts a printed page
+     */
+    private static parseRowLayout($row: cheerio.Cheerio<any>, cascade: StyleCascade): Pick<TableRow, 'height' | 'hidden' | 'level' | 'pageBreak'> {
+        const declarations = $row[0] ? cascade.declarationsFor($row[0]) : []
+        const pixels = [this.lastDeclaration(declarations, 'height') ?? $row.attr('height'), this.lastDeclaration(declarations, 'min-height')]
+            .map(value => parseSize(value))
+            .filter((value): value is number => value !== undefined)
+        const hidden = $row.attr('data-xlsx-hidden') !== undefined || ($row.parent().is('thead, tbody, tfoot') && $row.parent().attr('data-xlsx-hidden') !== undefined)
+        const pageBreak = this.lastDeclaration(declarations, 'page-break-before')?.toLowerCase() === 'always' ||
+            this.lastDeclaration(declarations, 'break-before')?.toLowerCase() === 'page'
+
+        return {
+            height: pixels.length > 0 ? pixelsToPoints(Math.max(...pixels)) : undefined,
+            hidden: hidden || undefined,
+            level: this.parseOutlineLevel($row) || undefined,
+            pageBreak: pageBreak || undefined
+        }
+    }
+
+    /**
+     * Outline level of a row or column: data-xlsx-level (0 to 7), or aria-level of tree grids,
+     * where the top level is 1 and stays outside any group
+     */
+    private static parseOutlineLevel($element: cheerio.Cheerio<any>): number | undefined {
+        const level = $element.attr('data-xlsx-level') ?? $element.attr('aria-level')
+        const value = parseInt(level || '')
+        if (isNaN(value)) return undefined
+
+        const outlineLevel = $element.attr('data-xlsx-level') !== undefined ? value : value - 1
+        return Math.min(Math.max(outlineLevel, 0), this.MAX_OUTLINE_LEVEL)
+    }
+
+    private static lastDeclaration(declarations: CssDeclaration[], property: string): string | undefined {
+        for (let i = declarations.length - 1; i >= 0; i--) {
+            if (declarations[i].property === property) return declarations[i].value
+        }
+        return undefined
+    }
+
+    /**
+     * Columns that hold values, in order: the leaves of the header groups
+     */
+    private static getLeafColumns<Row>(columns: ColumnDefinition<Row>[]): ColumnDefinition<Row>[] {
+        const leaves = columns.flatMap(column => column.columns?.length ? this.getLeafColumns(column.columns) : [column])
+        if (leaves.length === 0) {
+            throw new Error('No columns defined')
+        }
+        return leaves
+    }
+
+    /**
+     * Header rows of column definitions: a group spans its leaf columns, and a column
+     * without sub-columns spans down to the last header row
+     */
+    private static createColumnHeaderRows<Row>(columns: ColumnDefinition<Row>[]): TableRow[] {
+        const depth = (column: ColumnDefinition<Row>): number =>
+            column.columns?.length ? 1 + Math.max(...column.columns.map(depth)) : 1
+        const headerDepth = Math.max(...columns.map(depth))
+        const rows: TableRow[] = Array.from({ length: headerDepth }, () => ({ cells: [] }))
+
+        const addColumns = (group: ColumnDefinition<Row>[], level: number) => {
+            group.forEach(column => {
+                const hasChildren = !!column.columns?.length
+                rows[level].cells.push({
+                    content: column.header,
+                    colspan: hasChildren ? this.getLeafColumns(column.columns as ColumnDefinition<Row>[]).length : 1,
+                    rowspan: hasChildren ? 1 : headerDepth - level,
+                    isHeader: true,
+                    styles: { fontWeight: 'bold', ...column.headerStyle }
+                })
+                if (hasChildren) addColumns(column.columns as ColumnDefinition<Row>[], level + 1)
+            })
+        }
+        addColumns(columns, 0)
+
+        return rows
+    }
+
+    private static createRowCells<Row>(row: Row, rowIndex: number, columns: ColumnDefinition<Row>[]): TableCell[] {
+        return columns.map(column => {
+            const value = column.accessor
+                ? column.accessor(row, rowIndex)
+                : column.key?.split('.').reduce((object: any, key) => object?.[key], row)
+            const styles = typeof column.style === 'function' ? column.style(value, row) : column.style
+
+            return {
+                ...this.createValueCell(value, column),
+                colspan: 1,
+                rowspan: 1,
+                isHeader: false,
+                validation: column.validation,
+                locked: column.locked,
+                styles: styles && { ...styles }
+            }
+        })
+    }
+
+    /**
+     * Cell content of a JavaScript value; Dates are read in UTC, like ISO date text
+     */
+    private static createValueCell(value: unknown, column: ColumnDefinition): Pick<TableCell, 'content' | 'value' | 'type' | 'numberFormat'> {
+        if (value === null || value === undefined) {
+            return { content: '', numberFormat: column.format }
+        }
+
+        if (value instanceof Date) {
+            const time = value.getTime()
+            if (isNaN(time)) {
+                return { content: '', numberFormat: column.format }
+            }
+            return {
+                content: value.toISOString(),
+                value: (time - Date.UTC(1899, 11, 30)) / 86400000,
+                type: 'date',
+                numberFormat: column.format ?? (time % 86400000 === 0 ? 'yyyy-mm-dd' : 'yyyy-mm-dd hh:mm:ss')
+            }
+        }
+
+        if (typeof value === 'number' || typeof value === 'boolean') {
+            const type = typeof value === 'number' ? 'number' : 'boolean'
+            return Number.isFinite(value) || type === 'boolean'
+                ? { content: String(value), value, type, numberFormat: column.format }
+                : { content: String(value), type: 'string', numberFormat: column.format }
+        }
+
+        const content = String(value)
+        const typed = column.type ? this.coerceValue(content, column.type) : undefined
+        if (column.type && !typed) {
+            console.warn(`⚠️ Cannot read "${content}" as ${column.type}, keeping cell as text`)
+        }
+
+        return typed
+            ? { content, value: typed.value, type: typed.type, numberFormat: column.format ?? typed.numberFormat }
+            : { content, type: column.type && 'string', numberFormat: column.format }
+    }
+
+    /**
+     * Rules of the document's <style> blocks, in source order
+     */
+    private static collectStyleRules($: cheerio.CheerioAPI, firstOrder = 0): CssRule[] {
+        return parseStyleSheet($('style').toArray().map(style => $(style).text()).join('\n'), firstOrder)
+    }
+
+    /**
+     * Cascade for a document: inherited rules (e.g. a stream header's), the document's <style> blocks, then options.css
+     */
+    private static createStyleCascade($: cheerio.CheerioAPI, options: ConvertOptions, inheritedRules: CssRule[] = []): StyleCascade {
+        const documentRules = this.collectStyleRules($, inheritedRules.length)
+        const optionRules = options.css ? parseStyleSheet(options.css, inheritedRules.length + documentRules.length) : []
+
+        return new StyleCascade($, [...inheritedRules, ...documentRules, ...optionRules])
+    }
+
+    /**
+     * Top-level tables of a document (tables nested inside cells belong to their parent),
+     * without the hidden and ignored ones (or those inside a hidden element)
+     */
+    private static findTables($: cheerio.CheerioAPI, cascade: StyleCascade): any[] {
+        return $('table').toArray().filter(table => $(table).parents('table').length === 0
+            && ![table, ...$(table).parents().toArray()].some(element => this.isExcluded(element, cascade)))
+    }
+
+    /**
+     * Sheet name declared by a table: data-sheet-name attribute, then <caption>
+     */
+    private static getSheetName(table: cheerio.Cheerio<any>): string | undefined {
+        const declared = table.attr('data-sheet-name')?.trim()
+        if (declared) return declared
+
+        const caption = table.children('caption').first().text().trim()
+        return caption || undefined
+    }
+
+    /**
+     * Enforce Excel's sheet name rules: max 31 chars, none of []:*?/\, not quoted, unique (case-insensitive)
+     * @param name Requested name (falls back to SheetN when empty)
+     * @param index Zero-based sheet index used for the fallback name
+     * @param usedNames Names already taken in the workbook, updated with the result
+     */
+    private static sanitizeSheetName(name: string | undefined, index: number, usedNames: Set<string>): string {
+        let base = (name || '')
+            .replace(/[\[\]:*?\/\\]/g, ' ')
+            .replace(/\s+/g, ' ')
+            .trim()
+            .replace(/^'+|'+$/g, '')
+            .substring(0, this.MAX_SHEET_NAME_LENGTH)
+            .trim()
+
+        if (!base || base.toLowerCase() === 'history') {
+            base = `Sheet${index + 1}`
+        }
+
+        let candidate = base
+        let suffix = 2
+        while (usedNames.has(candidate.toLowerCase())) {
+            const marker = ` (${suffix++})`
+            candidate = base.substring(0, this.MAX_SHEET_NAME_LENGTH - marker.length).trim() + marker
+        }
+
+        usedNames.add(candidate.toLowerCase())
+        return candidate
+    }
+
+    /**
+     * Parse a single th/td element into a TableCell
+     */
+    private static parseCell($cell: cheerio.Cheerio<any>, isHeader: boolean, cascade: StyleCascade, options: ConvertOptions = {}): TableCell {
+        // Hidden and ignored parts of the cell (action buttons, screen reader text, ...) are left out
+        const excluded = this.findExcludedContent($cell, cascade)
+        const content = this.getCellText($cell, excluded)
+        const $link = this.selectHyperlink($cell, options.hyperlinks, excluded)
+
+        let styles = this.parseCellStyles($cell, cascade.cellDeclarations($cell[0]), options, true)
+        if ($link) {
+            // Styles of the anchor override the cell's own
+            const linkStyles = this.parseCellStyles($link, cascade.declarationsFor($link[0]), options)
+            styles = linkStyles ? { ...styles, ...linkStyles } : styles
+        }
+
+        return {
+            content,
+            colspan: parseInt($cell.attr('colspan') || '1'),
+            rowspan: parseInt($cell.attr('rowspan') || '1'),
+            isHeader,
+            ...this.parseCellValue($cell, content),
+            formula: $cell.attr('data-xlsx-formula')?.trim().replace(/^=/, '') || undefined,
+            id: $cell.attr('id') || undefined,
+            hyperlink: $link ? this.parseHyperlink($link) : undefined,
+            richText: this.parseRichText($cell, cascade, excluded),
+            width: this.parseWidth($cell, cascade, styles?.fontSize),
+            hidden: $cell.attr('data-xlsx-hidden') !== undefined || undefined,
+            validation: this.parseValidation($cell, excluded),
+            comment: this.parseComment($cell, excluded, options),
+            image: this.parseImage($cell, excluded, options),
+            locked: this.parseLocked($cell, excluded),
+            styles
+        }
+    }
+
+    /**
+     * Elements inside a cell that are left out of its content
+     */
+    private static findExcludedContent($cell: cheerio.Cheerio<any>, cascade: StyleCascade): Set<any> | undefined {
+        const excluded = $cell.find('*').toArray().filter(element => this.isExcluded(element, cascade))
+        return excluded.length > 0 ? new Set(excluded) : undefined
+    }
+
+    /**
+     * Text of a cell, with <br> as a line break and without excluded elements
+     */
+    private static getCellText($cell: cheerio.Cheerio<any>, excluded?: Set<any>): string {
+        if (!excluded && $cell.find('br, select, input').length === 0) {
+            return $cell.text().trim()
+        }
+
+        const textOf = (nodes: any[]): string => nodes.map(node => {
+            if (node.type === 'text') return node.data
+            if (node.name === 'br') return '\n'
+            if (excluded?.has(node)) return ''
+            return node.name === 'select' || node.name === 'input' ? this.getControlText($cell.find(node)) : textOf(node.children || [])
+        }).join('')
+        return textOf($cell[0]?.children || []).trim()
+    }
+
+    /**
+     * Text a form control shows: the selected options of a <select> (its first option when none is selected),
+     * or the value of a text-like <input>
+     */
+    private static getControlText($control: cheerio.Cheerio<any>): string {
+        if ($control.is('input')) {
+            return this.TEXT_INPUT_TYPES.includes(($control.attr('type') || 'text').toLowerCase()) ? $control.attr('value') || '' : ''
+        }
+
+        const $options = $control.find('option')
+        const $selected = $options.filter('[selected]')
+        const $shown = $selected.length > 0 || $control.attr('multiple') !== undefined ? $selected : $options.first()
+        return $shown.toArray().map(option => $control.find(option).text().trim()).join(', ')
+    }
+
+    /**
+     * Note of a cell: data-xlsx-comment (by data-xlsx-comment-author) or the title attribute,
+     * then a line per <abbr title> in the cell with the abbreviation and its expansion
+     */
+    private static parseComment($cell: cheerio.Cheerio<any>, excluded: Set<any> | undefined, options: ConvertOptions): CellComment | undefined {
+        if (options.comments === false) return undefined
+
+        const abbreviations = $cell.find('abbr[title]').toArray()
+            .filter(abbr => !this.isExcludedContent($cell, abbr, excluded))
+            .map(abbr => `${$cell.find(abbr).text().trim()}: ${$cell.find(abbr).attr('title')?.trim()}`)
+        const lines = [$cell.attr('data-xlsx-comment') ?? $cell.attr('title'), ...new Set(abbreviations)]
+        const text = lines.map(line => line?.trim()).filter(Boolean).join('\n')
+
+        return text ? { text, author: $cell.attr('data-xlsx-comment-author') || options.comments?.author } : undefined
+    }
+
+    /**
+     * Image of the first <img> of a cell, sized by its width and height attributes;
+     * with only one of them the image keeps its aspect ratio, with none it keeps its own size
+     */
+    private static parseImage($cell: cheerio.Cheerio<any>, excluded: Set<any> | undefined, options: ConvertOptions): CellImage | undefined {
+        if (options.images === false) return undefined
+
+        const img = $cell.find('img[src]').toArray().find(element => !this.isExcludedContent($cell, element, excluded))
+        if (!img) return undefined
+
+        const $img = $cell.find(img)
+        const loaded = loadImage(($img.attr('src') as string).trim(), options.images?.baseDir)
+        if (!loaded) return undefined
+
+        const width = parseSize($img.attr('width'))
+        const height = parseSize($img.attr('height'))
+        const ratio = loaded.height > 0 ? loaded.width / loaded.height : 1
+
+        return {
+            data: loaded.data,
+            format: loaded.format,
+            width: Math.round(width ?? (height !== undefined ? height * ratio : loaded.width)),
+            height: Math.round(height ?? (width !== undefined ? width / ratio : loaded.height)),
+            alt: $img.attr('alt')?.trim() || undefined
+        }
+    }
+
+    /**
+     * Whether a cell stays locked on a protected sheet: data-xlsx-locked, otherwise false for contenteditable cells
+     * and cells with an enabled, writable form control; undefined keeps Excel's default (locked)
+     */
+    private static parseLocked($cell: cheerio.Cheerio<any>, excluded?: Set<any>): boolean | undefined {
+        const locked = $cell.attr('data-xlsx-locked')
+        if (locked !== undefined) return locked.trim().toLowerCase() !== 'false'
+
+        const editable = $cell.closest('[contenteditable]').attr('contenteditable')
+        if (editable !== undefined && editable.trim().toLowerCase() !== 'false') return false
+
+        const hasControl = $cell.find(this.EDITABLE_CONTROLS).toArray().some(control =>
+            !this.isExcludedContent($cell, control, excluded) && $cell.find(control).is(':not([disabled]):not([readonly])'))
+        return hasControl ? false : undefined
+    }
+
+    /**
+     * Whether an element of a cell is excluded content or inside it
+     */
+    private static isExcludedContent($cell: cheerio.Cheerio<any>, element: any, excluded?: Set<any>): boolean {
+        return !!excluded && $cell.find(element).parentsUntil($cell).addBack().toArray().some(node => excluded.has(node))
+    }
+
+    /**
+     * Data validation of a cell: data-xlsx-validate on the cell or its form control, otherwise the rule the control
+     * implies (the options of a <select>, min/max of number, date and time inputs, minlength/maxlength of text).
+     * data-xlsx-prompt (or the control's title) is the input message, data-xlsx-error and data-xlsx-error-style the alert
+     */
+    private static parseValidation($cell: cheerio.Cheerio<any>, excluded?: Set<any>): DataValidation | undefined {
+        const $control = $cell.find('select, input, textarea').filter((_, control) => !this.isExcludedContent($cell, control, excluded)).first()
+
+        const attr = (name: string) => $cell.attr(name) ?? $control.attr(name)
+        const rule = attr('data-xlsx-validate')
+        const validation = rule !== undefined ? parseDataValidation(rule) : this.getControlValidation($control)
+        if (!validation) return undefined
+
+        const prompt = attr('data-xlsx-prompt') ?? $control.attr('title')
+        const error = attr('data-xlsx-error')
+        const errorStyle = attr('data-xlsx-error-style')?.toLowerCase()
+
+        return {
+            ...validation,
+            allowBlank: $control.attr('required') !== undefined ? false : undefined,
+            prompt: prompt ? { message: prompt } : undefined,
+            error: error || errorStyle ? {
+                message: error || undefined,
+                style: errorStyle === 'warning' || errorStyle === 'information' ? errorStyle : undefined
+            } : undefined
+        }
+    }
+
+    private static getControlValidation($control: cheerio.Cheerio<any>): DataValidation | undefined {
+        if ($control.length === 0) return undefined
+
+        if ($control.is('select')) {
+            if ($control.attr('multiple') !== undefined) return undefined
+            const values = Array.from(new Set($control.find('option').toArray().map(option => $control.find(option).text().trim()).filter(Boolean)))
+            return values.length > 0 ? { type: 'list', values } : undefined
+        }
+
+        const type = $control.is('textarea') ? 'textarea' : ($control.attr('type') || 'text').toLowerCase()
+        const bounds = (min: string | number | undefined, max: string | number | undefined): Pick<DataValidation, 'operator' | 'values'> | undefined => {
+            if (min !== undefined && max !== undefined) return { operator: 'between', values: [min, max] }
+            if (min !== undefined) return { operator: 'greaterThanOrEqual', values: [min] }
+            if (max !== undefined) return { operator: 'lessThanOrEqual', values: [max] }
+            return undefined
+        }
+        const number = (name: string) => {
+            const value = parseFloat($control.attr(name) || '')
+            return isNaN(value) ? undefined : value
+        }
+
+        if (type === 'number' || type === 'range') {
+            const range = bounds(number('min'), number('max'))
+            const step = $control.attr('step')?.trim().toLowerCase()
+            // Inputs step by whole numbers from min unless the step or min has decimals
+            const whole = step !== 'any' && Number.isInteger(number('step') ?? 1) && Number.isInteger(number('min') ?? 0)
+            return range && { type: whole ? 'whole' : 'decimal', ...range }
+        }
+        if (type === 'date' || type === 'time') {
+            const range = bounds($control.attr('min') || undefined, $control.attr('max') || undefined)
+            return range && { type, ...range }
+        }
+        if (type === 'textarea' || this.TEXT_INPUT_TYPES.includes(type)) {
+            const range = bounds(number('minlength'), number('maxlength'))
+            return range && { type: 'textLength', ...range }
+        }
+        return undefined
+    }
+
+    /**
+     * Build rich text runs from inline formatting tags
+     * Returns undefined when the cell text has no mixed formatting
+     */
+    private static parseRichText($cell: cheerio.Cheerio<any>, cascade: StyleCascade, excluded?: Set<any>): RichTextRun[] | undefined {
+        const runs: RichTextRun[] = []
+
+        const addText = (text: string, format: Omit<RichTextRun, 'text'>) => {
+            const previous = runs[runs.length - 1]
+            // Collapse whitespace across tags the way browsers render it
+            if (!previous || /[ \n]$/.test(previous.text)) {
+                text = text.replace(/^ /, '')
+            }
+            if (!text) return
 
-        // Create Excel data with merges
-        const { data: excelData, merges } = this.createExcelData(tableData)
+            if (previous && this.isSameRunFormat(previous, format)) {
+                previous.text += text
+            } else {
+                runs.push({ ...format, text })
+            }
+        }
 
-        // Convert to simple data for Excel (this was missing!)
-        const simpleData = this.convertToSimpleData(excelData)
+        const walk = (nodes: any[], format: Omit<RichTextRun, 'text'>) => {
+            nodes.forEach(node => {
+                if (node.type === 'text') {
+                    addText(node.data.replace(/\s+/g, ' '), format)
+                } else if (node.type === 'tag' && !['script', 'style'].includes(node.name) && !excluded?.has(node)) {
+                    if (node.name === 'br') {
+                        const previous = runs[runs.length - 1]
+                        if (previous) previous.text = previous.text.replace(/ $/, '')
+                        addText('\n', format)
+                        return
+                    }
+                    if (node.name === 'select' || node.name === 'input') {
+                        addText(this.getControlText($cell.find(node)), format)
+                        return
+                    }
+                    walk(node.children || [], { ...format, ...this.parseRichTextFormat(node, cascade) })
+                }
+            })
+        }
 
-        // Convert to worksheet
-        const worksheet = XLSX.utils.aoa_to_sheet(simpleData)
+        walk($cell[0]?.children || [], {})
 
-        // Apply merges
-        if (merges.length > 0) {
-            worksheet['!merges'] = merges
+        if (runs.length > 0) {
+            runs[runs.length - 1].text = runs[runs.length - 1].text.replace(/\s+$/, '')
         }
 
-        // Apply full styling to all rows
-        this.applyStyling(worksheet, tableData, excelData)
+        const textRuns = runs.filter(run => run.text)
+        return textRuns.some(run => !this.isSameRunFormat(run, {})) ? textRuns : undefined
+    }
 
-        // Calculate column widths using the existing method
-        const colWidths = this.calculateOptimizedColumnWidths(simpleData, tableData.maxCols)
-        worksheet['!cols'] = colWidths
+    private static parseRichTextFormat(element: any, cascade: StyleCascade): Omit<RichTextRun, 'text'> {
+        const format: Omit<RichTextRun, 'text'> = {}
+
+        switch (element.name) {
+            case 'b':
+            case 'strong':
+                format.bold = true
+                break
+            case 'i':
+            case 'em':
+                format.italic = true
+                break
+            case 'u':
+            case 'ins':
+                format.underline = true
+                break
+            case 's':
+            case 'strike':
+            case 'del':
+                format.strike = true
+                break
+            case 'sup':
+                format.vertAlign = 'superscript'
+                break
+            case 'sub':
+                format.vertAlign = 'subscript'
+                break
+        }
 
-        // Calculate row heights (simplified for streaming)
-        const rowHeights = this.calculateRowHeightsForStreaming(excelData, tableData)
-        worksheet['!rows'] = rowHeights
+        const declarations = cascade.declarationsFor(element)
+        if (declarations.length > 0) {
+            const styles = applyDeclarations(declarations)
+            if (styles.color) format.color = styles.color
+            if (styles.fontWeight) format.bold = styles.fontWeight === 'bold'
+            if (styles.fontStyle) format.italic = styles.fontStyle === 'italic'
+            if (styles.underline !== undefined) format.underline = styles.underline
+            if (styles.strike !== undefined) format.strike = styles.strike
+        }
 
-        XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1')
+        return format
+    }
 
-        if (outputPath) {
-            XLSX.writeFile(workbook, outputPath)
-            return outputPath
-        } else {
-            return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
-        }
+    private static isSameRunFormat(a: Omit<RichTextRun, 'text'>, b: Omit<RichTextRun, 'text'>): boolean {
+        return !!a.bold === !!b.bold && !!a.italic === !!b.italic && !!a.underline === !!b.underline &&
+            !!a.strike === !!b.strike && a.vertAlign === b.vertAlign && a.color === b.color
     }
 
     /**
-     * Optimized conversion for large tables (>10k rows)
-     * Uses minimal styling and optimized processing
+     * Pick the anchor that becomes the cell's hyperlink (Excel allows one link per cell)
      */
-    private static async convertLargeTable(tableData: TableData, outputPath?: string): Promise<string | Buffer> {
-        console.log(`[TableToXlsx] 🚀 Using optimized processing for large table (${tableData.rows.length} rows)`)
+    private static selectHyperlink($cell: cheerio.Cheerio<any>, selection: ConvertOptions['hyperlinks'] = 'first', excluded?: Set<any>): cheerio.Cheerio<any> | undefined {
+        if (selection === 'none') return undefined
 
-        const workbook = XLSX.utils.book_new()
-        const simpleData: any[][] = []
-        const merges: any[] = []
+        const links = $cell.find('a[href]').filter((_, link) => {
+            const href = (link.attribs.href || '').trim()
+            const hidden = excluded && [link, ...$cell.find('*').has(link).toArray()].some(element => excluded.has(element))
+            return !!href && !/^javascript:/i.test(href) && !hidden
+        })
 
-        // Process data in chunks to avoid memory issues
-        const chunkSize = 1000
-        let currentRow = 0
+        if (links.length === 0) return undefined
+        return selection === 'last' ? links.last() : links.first()
+    }
 
-        for (let chunkStart = 0; chunkStart < tableData.rows.length; chunkStart += chunkSize) {
-            const chunkEnd = Math.min(chunkStart + chunkSize, tableData.rows.length)
-            const chunk = tableData.rows.slice(chunkStart, chunkEnd)
+    private static parseHyperlink($link: cheerio.Cheerio<any>): TableCell['hyperlink'] {
+        const href = ($link.attr('href') || '').trim()
+        const tooltip = $link.attr('title')?.trim()
 
-            // Process chunk
-            chunk.forEach((row, rowIndex) => {
-                const actualRowIndex = chunkStart + rowIndex
-                const rowData: any[] = new Array(tableData.maxCols).fill('')
-                let currentCol = 0
+        return {
+            target: href,
+            tooltip: tooltip || undefined
+        }
+    }
 
-                row.cells.forEach((cell) => {
-                    while (currentCol < tableData.maxCols && rowData[currentCol] !== '') {
-                        currentCol++
-                    }
+    /**
+     * Read the explicit value contract from data attributes:
+     * - data-xlsx-type: string | number | boolean | date
+     * - data-xlsx-value: raw value when the displayed text is formatted (e.g. "1.2M")
+     * - data-xlsx-format: Excel number format code (e.g. "#,##0.00")
+     */
+    private static parseCellValue($cell: cheerio.Cheerio<any>, content: string): Pick<TableCell, 'value' | 'type' | 'numberFormat'> {
+        const type = $cell.attr('data-xlsx-type')?.trim().toLowerCase()
+        const rawValue = $cell.attr('data-xlsx-value')
+        const numberFormat = $cell.attr('data-xlsx-format') || undefined
 
-                    if (currentCol >= tableData.maxCols) return
+        if (!type && rawValue === undefined) {
+            return numberFormat ? { numberFormat } : {}
+        }
 
-                    rowData[currentCol] = cell.content
+        const source = rawValue ?? content
+        let typed: { value: string | number | boolean, type: CellValueType, numberFormat?: string } | undefined
 
-                    // Track merges for header rows (first 20 rows) or if it's a small merge area
-                    const isHeaderArea = actualRowIndex < 20
-                    const isSmallMerge = (cell.colspan * cell.rowspan) <= 10
-                    if ((isHeaderArea || isSmallMerge) && (cell.colspan > 1 || cell.rowspan > 1)) {
-                        merges.push({
-                            s: { r: actualRowIndex, c: currentCol },
-                            e: { r: actualRowIndex + cell.rowspan - 1, c: currentCol + cell.colspan - 1 }
-                        })
-                    }
+        if (type) {
+            if (!['string', 'number', 'boolean', 'date'].includes(type)) {
+                console.warn(`⚠️ Unknown data-xlsx-type "${type}", keeping cell as text`)
+            } else {
+                typed = this.coerceValue(source, type as CellValueType)
+                if (!typed) {
+                    console.warn(`⚠️ Cannot read "${source}" as ${type}, keeping cell as text`)
+                }
+            }
+        } else {
+            typed = this.inferValue(source)
+        }
 
-                    currentCol += cell.colspan
-                })
+        typed = typed || { value: source, type: 'string' }
 
-                simpleData.push(rowData)
-            })
+        return {
+            value: typed.value,
+            type: typed.type,
+            numberFormat: numberFormat ?? typed.numberFormat
+        }
+    }
 
-            // Progress indicator
-            if (chunkStart % (chunkSize * 10) === 0) {
-                console.log(`📊 Processed ${Math.min(chunkEnd, tableData.rows.length)}/${tableData.rows.length} rows`)
+    private static coerceValue(text: string, type: CellValueType): { value: string | number | boolean, type: CellValueType, numberFormat?: string } | undefined {
+        const value = text.trim()
+
+        switch (type) {
+            case 'string':
+                return { value: text, type }
+            case 'number': {
+                const inferred = this.inferValue(value)
+                if (inferred?.type === 'number') return inferred
+                const number = Number(value)
+                return value && isFinite(number) ? { value: number, type } : undefined
+            }
+            case 'boolean':
+                if (/^(true|yes|1)$/i.test(value)) return { value: true, type }
+                if (/^(false|no|0)$/i.test(value)) return { value: false, type }
+                return undefined
+            case 'date': {
+                const date = this.parseIsoDate(value)
+                return date ? { value: date.serial, type, numberFormat: date.format } : undefined
             }
         }
+    }
 
-        const worksheet = XLSX.utils.aoa_to_sheet(simpleData)
-
-        // Apply merges
-        if (merges.length > 0) {
-            worksheet['!merges'] = merges
+    /**
+     * Post-parse processing shared by every conversion path
+     */
+    private static prepareTableData(tableData: TableData, options: ConvertOptions): void {
+        if (options.inferTypes !== false) {
+            this.inferCellValues(tableData)
         }
+    }
 
-        // Apply minimal styling only to header rows
-        this.applyStyling(worksheet, tableData)
-
-        // Optimized column widths - sample-based
-        const colWidths = this.calculateOptimizedColumnWidths(simpleData, tableData.maxCols)
-        worksheet['!cols'] = colWidths
+    /**
+     * Replace textual content with typed values where the text is unambiguous
+     * Header cells and cells that already carry a type are left as they are
+     */
+    private static inferCellValues(tableData: TableData): void {
+        tableData.rows.forEach(row => {
+            row.cells.forEach(cell => {
+                if (cell.isHeader || cell.type) return
+
+                const inferred = this.inferValue(cell.content)
+                if (inferred) {
+                    cell.value = inferred.value
+                    cell.type = inferred.type
+                    cell.numberFormat = cell.numberFormat ?? inferred.numberFormat
+                }
+            })
+        })
+    }
 
-        // Skip row height calculation for large tables
-        console.log('⏭️ Skipping row height calculation for performance')
+    private static inferValue(text: string): { value: number | boolean, type: CellValueType, numberFormat?: string } | undefined {
+        const value = text.trim()
+        if (!value) return undefined
 
-        XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1')
+        if (/^(true|false)$/i.test(value)) {
+            return { value: value.toLowerCase() === 'true', type: 'boolean' }
+        }
 
-        if (outputPath) {
-            XLSX.writeFile(workbook, outputPath)
-            console.log(`✅ Large table conversion completed: ${outputPath}`)
-            return outputPath
-        } else {
-            return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
+        const date = this.parseIsoDate(value)
+        if (date) {
+            return { value: date.serial, type: 'date', numberFormat: date.format }
         }
-    }
 
-    private static async parseHtmlTable(html: string): Promise<TableData> {
-        const $ = cheerio.load(html)
-        const table = $('table')
+        // Percentages: 12.5% -> 0.125 formatted as 0.0%
+        const percentMatch = value.match(/^([-+]?[\d,]+(?:\.\d+)?)\s?%$/)
+        if (percentMatch) {
+            const number = this.parseNumber(percentMatch[1])
+            if (!number) return undefined
+            return {
+                value: number.value / 100,
+                type: 'number',
+                numberFormat: `0${this.decimalFormat(number.decimals)}%`
+            }
+        }
 
-        if (table.length === 0) {
-            throw new Error('No table found in HTML')
+        // Currencies: $1,299.00, -$5, ($5.00), €12
+        const currencyMatch = value.match(/^(\()?(-)?([$€£¥])\s?(-)?([\d,]+(?:\.\d+)?)(\))?$/)
+        if (currencyMatch) {
+            const [, openParen, signBefore, symbol, signAfter, digits, closeParen] = currencyMatch
+            if (!!openParen !== !!closeParen || (openParen && (signBefore || signAfter))) return undefined
+            const number = this.parseNumber(digits)
+            if (!number) return undefined
+            const negative = !!(openParen || signBefore || signAfter)
+            const format = `"${symbol}"#,##0${this.decimalFormat(number.decimals)}`
+            return {
+                value: negative ? -number.value : number.value,
+                type: 'number',
+                numberFormat: openParen ? `${format};(${format})` : format
+            }
         }
 
-        const rows = table.find('tr')
-        const parsedRows: TableRow[] = []
-        let maxCols = 0
+        const number = this.parseNumber(value)
+        if (number) {
+            return {
+                value: number.value,
+                type: 'number',
+                numberFormat: number.grouped ? `#,##0${this.decimalFormat(number.decimals)}` : undefined
+            }
+        }
 
-        rows.each((rowIndex, rowElement) => {
-            const cells = $(rowElement).find('th, td')
-            const parsedCells: TableCell[] = []
+        return undefined
+    }
 
-            cells.each((cellIndex, cellElement) => {
-                const $cell = $(cellElement)
-                const colspan = parseInt($cell.attr('colspan') || '1')
-                const rowspan = parseInt($cell.attr('rowspan') || '1')
-                const isHeader = $cell.prop('tagName')?.toLowerCase() === 'th' || false
-                const styles = this.parseCellStyles($cell)
+    /**
+     * Parse a plain or thousands-grouped decimal number
+     * Returns undefined for values Excel would mangle (leading zeros, >15 significant digits)
+     */
+    private static parseNumber(text: string): { value: number, decimals: number, grouped: boolean } | undefined {
+        const match = text.match(/^([-+]?)(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?$/)
+        if (!match) return undefined
 
-                parsedCells.push({
-                    content: $cell.text().trim() || '',
-                    colspan: colspan,
-                    rowspan: rowspan,
-                    isHeader: isHeader,
-                    styles: styles
-                })
-            })
+        const [, sign, integerPart, fractionPart = ''] = match
+        const digits = integerPart.replace(/,/g, '')
 
-            parsedRows.push({ cells: parsedCells })
-            maxCols = Math.max(maxCols, parsedCells.length)
-        })
+        // Leading zeros usually mean identifiers (zip codes, account numbers)
+        if (digits.length > 1 && digits.startsWith('0')) return undefined
+        if ((digits + fractionPart).replace(/^0+/, '').length > 15) return undefined
 
-        return { rows: parsedRows, maxCols }
+        return {
+            value: parseFloat(`${sign}${digits}.${fractionPart || '0'}`),
+            decimals: fractionPart.length,
+            grouped: integerPart.includes(',')
+        }
     }
 
-    private static parseCellStyles($cell: cheerio.Cheerio<any>): TableCell['styles'] {
-        const styles: TableCell['styles'] = {}
+    private static decimalFormat(decimals: number): string {
+        return decimals > 0 ? `.${'0'.repeat(decimals)}` : ''
+    }
 
-        const styleAttr = $cell.attr('style')
-        if (styleAttr) {
-            const stylePairs = styleAttr.split(';').filter(s => s.trim())
+    /**
+     * Parse ISO 8601 dates (YYYY-MM-DD with optional time) into Excel serial numbers
+     * Slash dates are ambiguous between locales and are not inferred
+     */
+    private static parseIsoDate(text: string): { serial: number, format: string } | undefined {
+        const match = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/)
+        if (!match) return undefined
 
-            stylePairs.forEach(pair => {
-                const [property, value] = pair.split(':').map(s => s.trim())
+        const [year, month, day, hours, minutes, seconds] = match.slice(1).map(part => part ? parseInt(part, 10) : 0)
+        const time = Date.UTC(year, month - 1, day, hours, minutes, seconds)
+        const date = new Date(time)
 
-                switch (property) {
-                    case 'background-color':
-                        styles.backgroundColor = this.normalizeColor(value)
-                        break
-                    case 'text-align':
-                        if (['left', 'center', 'right'].includes(value)) {
-                            styles.textAlign = value as 'left' | 'center' | 'right'
-                        }
-                        break
-                    case 'font-size':
-                        const fontSize = parseInt(value)
-                        if (!isNaN(fontSize)) {
-                            styles.fontSize = fontSize
-                        }
-                        break
-                    case 'font-weight':
-                        if (value === 'bold' || value === '700') {
-                            styles.fontWeight = 'bold'
-                        } else if (value === 'normal' || value === '400') {
-                            styles.fontWeight = 'normal'
-                        }
-                        break
-                    case 'color':
-                        styles.color = this.normalizeColor(value)
-                        break
-                    case 'border':
-                        if (value === 'none') {
-                            styles.borderStyle = 'none'
-                        } else {
-                            const borderParts = value.split(' ')
-                            borderParts.forEach(part => {
-                                if (['thin', 'medium', 'thick', 'none'].includes(part)) {
-                                    styles.borderStyle = part as 'thin' | 'medium' | 'thick' | 'none'
-                                } else if (part.startsWith('#') || part.match(/^[a-zA-Z]+$/)) {
-                                    styles.borderColor = this.normalizeColor(value)
-                                } else if (part.endsWith('px')) {
-                                    const pixelValue = parseInt(part)
-                                    if (!isNaN(pixelValue)) {
-                                        if (pixelValue <= 1) styles.borderStyle = 'thin'
-                                        else if (pixelValue <= 3) styles.borderStyle = 'medium'
-                                        else styles.borderStyle = 'thick'
-                                    }
-                                }
-                            })
-                        }
-                        break
-                    case 'border-color':
-                        styles.borderColor = this.normalizeColor(value)
-                        break
-                    case 'border-style':
-                        if (['thin', 'medium', 'thick', 'none'].includes(value)) {
-                            styles.borderStyle = value as 'thin' | 'medium' | 'thick' | 'none'
-                        }
-                        break
-                }
-            })
+        if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day ||
+            hours > 23 || minutes > 59 || seconds > 59) {
+            return undefined
         }
 
-        const classAttr = $cell.attr('class')
-        if (classAttr) {
-            const classes = classAttr.split(' ').filter(c => c.trim())
-
-            classes.forEach(className => {
-                switch (className.toLowerCase()) {
-                    case 'text-left':
-                        styles.textAlign = 'left'
-                        break
-                    case 'text-center':
-                        styles.textAlign = 'center'
-                        break
-                    case 'text-right':
-                        styles.textAlign = 'right'
-                        break
-                    case 'font-bold':
-                    case 'bold':
-                        styles.fontWeight = 'bold'
-                        break
-                    case 'font-normal':
-                        styles.fontWeight = 'normal'
-                        break
-                    case 'border-none':
-                        styles.borderStyle = 'none'
-                        break
-                }
-            })
+        const serial = (time - Date.UTC(1899, 11, 30)) / 86400000
+        let format = 'yyyy-mm-dd'
+        if (match[4] !== undefined) {
+            format += match[6] !== undefined ? ' hh:mm:ss' : ' hh:mm'
         }
 
-        return Object.keys(styles).length > 0 ? styles : undefined
+        return { serial, format }
     }
 
-
-
-    private static normalizeColor(color: string): string {
-        if (color.startsWith('#')) {
-            return color.substring(1)
-        }
-
-        if (color.startsWith('rgb(') || color.startsWith('rgba(')) {
-            return '000000'
+    /**
+     * Styles of an element from its cascaded CSS declarations and mapped class names
+     * Classes of a cell's row, section and table apply below the CSS, the element's own classes on top
+     * @param inheritClasses Whether class styles of ancestors are inherited (cells only)
+     */
+    private static parseCellStyles($cell: cheerio.Cheerio<any>, declarations: CssDeclaration[], options: ConvertOptions, inheritClasses = false): TableCell['styles'] {
+        const styles: NonNullable<TableCell['styles']> = {}
+
+        if (inheritClasses) {
+            // Only the row, section and table of the cell paint their background through it
+            const ownTable: any = $cell.closest('table')[0]
+            const tableParts = new Set<any>(ownTable ? [...$cell.parentsUntil(ownTable).toArray(), ownTable] : [])
+
+            $cell.parents().toArray().reverse().forEach(ancestor => {
+                const paintsBackground = tableParts.has(ancestor)
+                Object.assign(styles, classStyles(ancestor.attribs?.class, options.classMap, property =>
+                    this.INHERITED_STYLES.includes(property) || (paintsBackground && property === 'backgroundColor')))
+            })
         }
 
-        const colorMap: { [key: string]: string } = {
-            'red': 'FF0000',
-            'green': '00FF00',
-            'blue': '0000FF',
-            'yellow': 'FFFF00',
-            'black': '000000',
-            'white': 'FFFFFF',
-            'gray': '808080',
-            'grey': '808080',
-            'orange': 'FFA500',
-            'purple': '800080',
-            'pink': 'FFC0CB',
-            'brown': 'A52A2A',
-            'cyan': '00FFFF',
-            'magenta': 'FF00FF'
-        }
+        applyDeclarations(declarations, styles)
+        Object.assign(styles, classStyles($cell.attr('class'), options.classMap))
 
-        const normalizedColor = colorMap[color.toLowerCase()]
-        return normalizedColor ? normalizedColor : '000000'
+        return Object.keys(styles).length > 0 ? styles : undefined
     }
 
-    private static getCellData(row: number, col: number, tableData?: TableData, excelData?: any[][]): { content: string, styles?: any } | undefined {
+    private static getCellData(row: number, col: number, tableData?: TableData, excelData?: any[][]): { content: string, value?: TableCell['value'], styles?: any, numberFormat?: string, formula?: string, hyperlink?: TableCell['hyperlink'], richText?: RichTextRun[], validation?: DataValidation, comment?: CellComment, image?: CellImage, locked?: boolean } | undefined {
         if (excelData && excelData[row] && excelData[row][col]) {
             const cellData = excelData[row][col]
             if (typeof cellData === 'object' && cellData !== null && 'styles' in cellData) {
                 return {
                     content: cellData.content,
-                    styles: cellData.styles
+                    value: cellData.value,
+                    styles: cellData.styles,
+                    numberFormat: cellData.numberFormat,
+                    formula: cellData.formula,
+                    hyperlink: cellData.hyperlink,
+                    richText: cellData.richText,
+                    validation: cellData.validation,
+                    comment: cellData.comment,
+                    image: cellData.image,
+                    locked: cellData.locked
                 }
             }
         }
@@ -715,7 +3032,7 @@ export default class TableToXlsx {
         return excelData.map(row =>
             row.map(cell => {
                 if (typeof cell === 'object' && cell !== null && 'content' in cell) {
-                    return cell.content
+                    return cell.value ?? cell.content
                 }
                 return cell
             })
@@ -725,6 +3042,7 @@ export default class TableToXlsx {
     private static createExcelData(tableData: TableData): { data: any[][], merges: any[] } {
         const excelData: any[][] = []
         const merges: any[] = []
+        const ids = new Map<string, XLSX.CellAddress>()
 
         for (let i = 0; i < tableData.rows.length; i++) {
             excelData[i] = new Array(tableData.maxCols).fill('')
@@ -746,9 +3064,23 @@ export default class TableToXlsx {
 
                 excelData[rowIndex][currentCol] = {
                     content: cell.content,
+                    value: cell.value,
+                    numberFormat: cell.numberFormat,
+                    formula: cell.formula,
+                    hyperlink: cell.hyperlink,
+                    richText: cell.richText,
+                    validation: cell.validation,
+                    comment: cell.comment,
+                    image: cell.image,
+                    locked: cell.locked,
+                    isHeader: cell.isHeader,
                     styles: cell.styles
                 }
 
+                if (cell.id) {
+                    ids.set(cell.id, { r: rowIndex, c: currentCol })
+                }
+
                 if (cell.colspan > 1 || cell.rowspan > 1) {
                     merges.push({
                         s: { r: rowIndex, c: currentCol },
@@ -762,6 +3094,7 @@ export default class TableToXlsx {
                         if (rowIndex + r < excelData.length && currentCol + c < excelData[0].length) {
                             excelData[rowIndex + r][currentCol + c] = {
                                 content: '',
+                                isHeader: cell.isHeader,
                                 styles: cell.styles
                             }
                         }
@@ -772,54 +3105,99 @@ export default class TableToXlsx {
             })
         })
 
+        // Formula references can only be resolved once every cell has its final position
+        const isHeaderAt = (r: number, c: number) => !!excelData[r]?.[c]?.isHeader
+        excelData.forEach((row, r) => {
+            row.forEach((cellData, c) => {
+                if (cellData?.formula) {
+                    cellData.formula = this.resolveFormula(cellData.formula, r, c, ids, isHeaderAt)
+                }
+                if (cellData?.hyperlink) {
+                    cellData.hyperlink = this.resolveHyperlink(cellData.hyperlink, ids, tableData.name)
+                }
+            })
+        })
+
         return { data: excelData, merges }
     }
 
-    private static createExcelFile(excelData: any[][], merges: any[], outputPath: string, tableData?: TableData) {
-        const workbook = XLSX.utils.book_new()
-        const simpleData = this.convertToSimpleData(excelData)
-        const worksheet = XLSX.utils.aoa_to_sheet(simpleData)
-
-        if (merges.length > 0) {
-            worksheet['!merges'] = merges
+    /**
+     * Point in-page links (#id) at the cell carrying that id
+     * Links that already name a sheet (#Sheet!A1) and external targets are kept as they are
+     */
+    private static resolveHyperlink(hyperlink: NonNullable<TableCell['hyperlink']>, ids: Map<string, XLSX.CellAddress>, sheetName = 'Sheet1'): NonNullable<TableCell['hyperlink']> {
+        if (!hyperlink.target.startsWith('#') || hyperlink.target.includes('!')) {
+            return hyperlink
         }
 
-        this.applyStyling(worksheet, tableData, excelData)
+        const target = ids.get(hyperlink.target.substring(1))
+        if (!target) {
+            return hyperlink
+        }
 
-        const colWidths = this.calculateOptimizedColumnWidths(simpleData, tableData?.maxCols || simpleData[0]?.length || 1);
+        return {
+            ...hyperlink,
+            target: `#'${sheetName.replace(/'/g, "''")}'!${XLSX.utils.encode_cell(target)}`
+        }
+    }
 
-        worksheet['!cols'] = colWidths;
+    /**
+     * Attach a hyperlink to a written cell, using Excel's hyperlink look where the cell's styles set no underline or color
+     */
+    private static applyHyperlink(worksheetCell: XLSX.CellObject, hyperlink: NonNullable<TableCell['hyperlink']>, styles?: TableCell['styles']) {
+        worksheetCell.l = {
+            Target: hyperlink.target,
+            Tooltip: hyperlink.tooltip
+        }
 
-        const rowHeights = simpleData.map((row, rowIndex) => {
-            let maxHeight = 15;
+        if (worksheetCell.s?.font) {
+            if (styles?.underline === undefined) worksheetCell.s.font.underline = true
+            if (styles?.color === undefined) worksheetCell.s.font.color = { rgb: this.HYPERLINK_COLOR }
+        }
+    }
 
-            row.forEach((cellValue, colIndex) => {
-                if (cellValue) {
-                    const cellData = this.getCellData(rowIndex, colIndex, tableData, excelData);
-                    const fontSize = cellData?.styles?.fontSize || 11;
-                    const fontHeight = fontSize * 1.2;
-                    const contentLength = String(cellValue).length;
-                    const estimatedLines = Math.ceil(contentLength / 30);
-                    const contentHeight = estimatedLines * fontHeight;
-                    maxHeight = Math.max(maxHeight, fontHeight, contentHeight);
+    /**
+     * Resolve layout references in a formula to A1 addresses:
+     * - {above}: the cells above in this column, up to the nearest header cell
+     * - {left}: the cells to the left in this row, up to the nearest header cell
+     * - {#id}: the (top-left) cell of the element with that id
+     * - {row} / {col}: this cell's row number / column letter
+     * Other braces (e.g. array constants like {1,2,3}) are left untouched
+     */
+    private static resolveFormula(formula: string, r: number, c: number, ids: Map<string, XLSX.CellAddress>, isHeaderAt: (r: number, c: number) => boolean): string {
+        return formula.replace(/\{\s*([^{}\s]+)\s*\}/g, (match, token: string) => {
+            switch (token) {
+                case 'row':
+                    return String(r + 1)
+                case 'col':
+                    return XLSX.utils.encode_col(c)
+                case 'above': {
+                    let start = r
+                    while (start > 0 && !isHeaderAt(start - 1, c)) start--
+                    return start < r ? XLSX.utils.encode_range({ s: { r: start, c }, e: { r: r - 1, c } }) : '#REF!'
                 }
-            });
-
-            return { hpt: Math.max(maxHeight, 15) };
-        });
+                case 'left': {
+                    let start = c
+                    while (start > 0 && !isHeaderAt(r, start - 1)) start--
+                    return start < c ? XLSX.utils.encode_range({ s: { r, c: start }, e: { r, c: c - 1 } }) : '#REF!'
+                }
+            }
 
-        worksheet['!rows'] = rowHeights;
-        XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1')
-        XLSX.writeFile(workbook, outputPath)
+            if (token.startsWith('#')) {
+                const target = ids.get(token.substring(1))
+                if (!target) {
+                    console.warn(`⚠️ Formula reference ${match} does not match any cell id`)
+                    return '#REF!'
+                }
+                return XLSX.utils.encode_cell(target)
+            }
 
-        console.log(`Excel file created successfully: ${outputPath}`)
-        console.log(`Applied ${merges.length} cell merges`)
-        console.log('Applied styling: centered alignment, borders, title formatting, and header formatting')
+            return match
+        })
     }
 
-    private static createExcelBuffer(excelData: any[][], merges: any[], tableData?: TableData): Buffer {
-        // Create a new workbook
-        const workbook = XLSX.utils.book_new()
+    private static createWorksheet(tableData: TableData): XLSX.WorkSheet {
+        const { data: excelData, merges } = this.createExcelData(tableData)
 
         // Convert data back to simple values for Excel
         const simpleData = this.convertToSimpleData(excelData)
@@ -835,98 +3213,181 @@ export default class TableToXlsx {
         // Add styling to all cells (center alignment, borders, etc.)
         this.applyStyling(worksheet, tableData, excelData)
 
-        const colWidths = this.calculateOptimizedColumnWidths(simpleData, tableData?.maxCols || simpleData[0]?.length || 1);
+        const fontAt = (rowIndex: number, colIndex: number) => this.getTextFont(this.getCellData(rowIndex, colIndex, tableData, excelData)?.styles)
+        const colWidths = this.calculateOptimizedColumnWidths(simpleData, tableData.maxCols || simpleData[0]?.length || 1, tableData.columnWidths, fontAt);
 
         // Apply the calculated widths to the worksheet
         worksheet['!cols'] = colWidths;
 
-        // Calculate row heights based on content and font sizes
-        const rowHeights = simpleData.map((row, rowIndex) => {
-            let maxHeight = 15; // Default minimum height
-
-            row.forEach((cellValue, colIndex) => {
-                if (cellValue) {
-                    const cellData = this.getCellData(rowIndex, colIndex, tableData, excelData);
-                    const fontSize = cellData?.styles?.fontSize || 11;
-
-                    // Calculate height based on font size and content length
-                    // Excel row height is roughly 1.2x the font size
-                    const fontHeight = fontSize * 1.2;
-
-                    // If content is long, we might need more height for wrapping
-                    const contentLength = String(cellValue).length;
-                    const estimatedLines = Math.ceil(contentLength / 30); // Rough estimate: 30 chars per line
-                    const contentHeight = estimatedLines * fontHeight;
+        // Merged cells wrap within the width of all their columns
+        const mergeWidths = new Map<string, number>();
+        merges.forEach(merge => {
+            let width = 0;
+            for (let c = merge.s.c; c <= merge.e.c; c++) width += colWidths[c]?.wch || 0;
+            mergeWidths.set(XLSX.utils.encode_cell(merge.s), width);
+        });
 
-                    maxHeight = Math.max(maxHeight, fontHeight, contentHeight);
-                }
+        // Explicit row heights win; otherwise fit the line breaks and wrapped lines of each cell
+        const rowHeights = simpleData.map((row, rowIndex) => {
+            const explicitHeight = tableData.rows[rowIndex]?.height;
+            if (explicitHeight !== undefined) {
+                return this.rowInfo(tableData.rows[rowIndex], explicitHeight);
+            }
 
-            });
+            const cells = row.map((cellValue, colIndex) => this.measureCell(
+                cellValue,
+                this.getCellData(rowIndex, colIndex, tableData, excelData)?.styles,
+                mergeWidths.get(XLSX.utils.encode_cell({ r: rowIndex, c: colIndex })) ?? colWidths[colIndex]?.wch
+            ));
 
-            return { hpt: Math.max(maxHeight, 15) }; // Minimum height of 15 points
+            return this.rowInfo(tableData.rows[rowIndex], autoRowHeight(cells));
         });
 
         // Apply the calculated heights to the worksheet
         worksheet['!rows'] = rowHeights;
 
-        // Add the worksheet to the workbook
-        XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1')
+        console.log(`Applied ${merges.length} cell merges to ${tableData.name || 'sheet'}`)
 
-        // Write to buffer
-        return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
+        return worksheet
     }
 
     /**
      * Calculate column widths using sampling for large tables
+     * @param fontAt Font of a cell, for bold and larger text
      */
-    private static calculateOptimizedColumnWidths(simpleData: any[][], maxCols: number): any[] {
+    private static calculateOptimizedColumnWidths(simpleData: any[][], maxCols: number, fixedWidths: (number | undefined)[] = [], fontAt?: (row: number, col: number) => TextFont | undefined): any[] {
         const colWidths = []
         const sampleSize = Math.min(1000, simpleData.length) // Sample first 1000 rows
 
         for (let colIndex = 0; colIndex < maxCols; colIndex++) {
-            let maxLength = 0
+            const fixedWidth = fixedWidths[colIndex]
+            if (fixedWidth !== undefined) {
+                colWidths.push({ wch: fixedWidth })
+                continue
+            }
+
+            let maxWidth = 0
 
             // Sample rows for width calculation
             for (let rowIndex = 0; rowIndex < sampleSize; rowIndex++) {
                 const row = simpleData[rowIndex]
                 if (row && row[colIndex]) {
-                    const cellValue = String(row[colIndex])
-                    maxLength = Math.max(maxLength, cellValue.length)
+                    maxWidth = Math.max(maxWidth, textWidth(String(row[colIndex]), fontAt?.(rowIndex, colIndex)))
                 }
             }
 
             // Set reasonable limits
-            const width = Math.min(Math.max(maxLength + 2, 10), 50)
-            colWidths.push({ wch: width })
+            colWidths.push({ wch: autoColumnWidth(maxWidth) })
         }
 
         return colWidths
     }
 
     /**
-     * Calculate row heights for streaming (simplified version)
+     * Calculate row heights for streaming (simplified version: line breaks and font sizes, no wrapping)
      */
     private static calculateRowHeightsForStreaming(excelData: any[][], tableData: TableData): any[] {
         const rowHeights = []
 
         for (let rowIndex = 0; rowIndex < excelData.length; rowIndex++) {
-            const row = excelData[rowIndex]
-            let maxFontSize = 12 // Default font size
+            const explicitHeight = tableData.rows[rowIndex]?.height
+            if (explicitHeight !== undefined) {
+                rowHeights.push(this.rowInfo(tableData.rows[rowIndex], explicitHeight))
+                continue
+            }
 
-            // Find the maximum font size in this row
-            for (let colIndex = 0; colIndex < row.length; colIndex++) {
+            const cells = excelData[rowIndex].map((_, colIndex) => {
                 const cellData = this.getCellData(rowIndex, colIndex, tableData, excelData)
-                if (cellData?.styles?.fontSize) {
-                    maxFontSize = Math.max(maxFontSize, cellData.styles.fontSize)
+                return this.measureCell(cellData?.content, cellData?.styles)
+            })
+            rowHeights.push(this.rowInfo(tableData.rows[rowIndex], autoRowHeight(cells)))
+        }
+
+        return rowHeights
+    }
+
+    /**
+     * !rows entry of a row: its height in points and outline level
+     */
+    private static rowInfo(row: TableRow | undefined, hpt?: number): XLSX.RowInfo {
+        return { ...(hpt !== undefined && { hpt }), ...(row?.level && { level: row.level }) }
+    }
+
+    /**
+     * Text and font of a cell for row height estimates
+     * @param width Column width the text wraps in; without one only line breaks add lines
+     */
+    private static measureCell(value: unknown, styles: TableCell['styles'], width?: number): MeasuredCell {
+        return {
+            text: value === undefined || value === null ? '' : String(value),
+            font: this.getTextFont(styles),
+            wrap: styles?.wrapText ?? true,
+            width
+        }
+    }
+
+    private static getTextFont(styles: TableCell['styles']): TextFont | undefined {
+        return styles ? { bold: styles.fontWeight === 'bold', size: styles.fontSize } : undefined
+    }
+
+    /**
+     * xlsx-js-style cell style for parsed cell styles
+     * @param locked false unlocks the cell for editing on a protected sheet
+     */
+    private static buildCellStyle(styles: TableCell['styles'], locked?: boolean): any {
+        const cellStyle: any = {
+            alignment: {
+                // Excel only indents left/right aligned text
+                horizontal: styles?.textAlign || (styles?.indent ? 'left' : 'center'),
+                vertical: styles?.verticalAlign || 'center',
+                wrapText: styles?.wrapText ?? true,
+                indent: styles?.indent
+            },
+            font: {
+                bold: styles?.fontWeight === 'bold' || false,
+                italic: styles?.fontStyle === 'italic' || undefined,
+                underline: styles?.underline || undefined,
+                strike: styles?.strike || undefined,
+                sz: styles?.fontSize || 11,
+                name: styles?.fontFamily,
+                color: styles?.color ? { rgb: styles.color } : undefined
+            },
+            fill: {
+                fgColor: {
+                    rgb: styles?.backgroundColor || 'FFFFFF'
                 }
             }
+        }
 
-            // Calculate height based on font size (simplified)
-            const height = Math.max(15, maxFontSize * 1.2)
-            rowHeights.push({ hpt: height })
+        const border = this.buildBorder(styles)
+        if (border) {
+            cellStyle.border = border
         }
 
-        return rowHeights
+        if (locked === false) {
+            cellStyle.protection = { locked: false }
+        }
+
+        return cellStyle
+    }
+
+    /**
+     * Border for each side: the side's own style/color, falling back to the cell-wide borderStyle/borderColor
+     */
+    private static buildBorder(styles: TableCell['styles']): any {
+        const border: any = {}
+
+        for (const side of ['top', 'right', 'bottom', 'left'] as const) {
+            const sideStyles = styles?.[`border${side.charAt(0).toUpperCase()}${side.substring(1)}` as 'borderTop']
+            const style = sideStyles?.style || styles?.borderStyle || 'thin'
+            const color = sideStyles?.color || styles?.borderColor
+
+            if (style !== 'none') {
+                border[side] = { style, color: color ? { rgb: color } : undefined }
+            }
+        }
+
+        return Object.keys(border).length > 0 ? border : undefined
     }
 
     private static applyStyling(worksheet: XLSX.WorkSheet, tableData?: TableData, excelData?: any[][]) {
@@ -942,46 +3403,51 @@ export default class TableToXlsx {
                     worksheet[cellAddress] = { v: '' }
                 }
 
-                const cellStyle: any = {
-                    alignment: {
-                        horizontal: customStyles?.textAlign || 'center',
-                        vertical: 'center',
-                        wrapText: true
-                    },
-                    font: {
-                        bold: customStyles?.fontWeight === 'bold' || false,
-                        sz: customStyles?.fontSize || 11,
-                        color: customStyles?.color ? { rgb: customStyles.color } : undefined
-                    },
-                    fill: {
-                        fgColor: {
-                            rgb: customStyles?.backgroundColor || 'FFFFFF'
-                        }
-                    }
+                const cellStyle = this.buildCellStyle(customStyles, cellData?.locked)
+
+                worksheet[cellAddress].s = cellStyle
+                if (cellStyle.protection) {
+                    const extras = this.getWorksheetExtras(worksheet)
+                    extras.unlockedCells = extras.unlockedCells || []
+                    extras.unlockedCells.push(cellAddress)
                 }
 
-                if (customStyles?.borderStyle !== 'none') {
-                    cellStyle.border = {
-                        top: {
-                            style: customStyles?.borderStyle || 'thin',
-                            color: customStyles?.borderColor ? { rgb: customStyles.borderColor } : undefined
-                        },
-                        bottom: {
-                            style: customStyles?.borderStyle || 'thin',
-                            color: customStyles?.borderColor ? { rgb: customStyles.borderColor } : undefined
-                        },
-                        left: {
-                            style: customStyles?.borderStyle || 'thin',
-                            color: customStyles?.borderColor ? { rgb: customStyles.borderColor } : undefined
-                        },
-                        right: {
-                            style: customStyles?.borderStyle || 'thin',
-                            color: customStyles?.borderColor ? { rgb: customStyles.borderColor } : undefined
-                        }
-                    }
+                if (cellData?.numberFormat) {
+                    worksheet[cellAddress].z = cellData.numberFormat
                 }
 
-                worksheet[cellAddress].s = cellStyle
+                if (cellData?.formula) {
+                    worksheet[cellAddress].f = cellData.formula
+                }
+
+                if (cellData?.hyperlink) {
+                    this.applyHyperlink(worksheet[cellAddress], cellData.hyperlink, customStyles)
+                }
+
+                // Rich text only replaces text values; typed values and formulas keep their cell
+                if (cellData?.richText && typeof (cellData.value ?? cellData.content) === 'string' && !cellData.formula) {
+                    const extras = this.getWorksheetExtras(worksheet)
+                    extras.richText = extras.richText || {}
+                    extras.richText[cellAddress] = { runs: cellData.richText, font: worksheet[cellAddress].s.font }
+                }
+
+                if (cellData?.validation) {
+                    const extras = this.getWorksheetExtras(worksheet)
+                    extras.dataValidations = extras.dataValidations || []
+                    extras.dataValidations.push({ address: { r: R, c: C }, validation: cellData.validation })
+                }
+
+                if (cellData?.comment) {
+                    const extras = this.getWorksheetExtras(worksheet)
+                    extras.comments = extras.comments || []
+                    extras.comments.push({ address: { r: R, c: C }, comment: cellData.comment })
+                }
+
+                if (cellData?.image) {
+                    const extras = this.getWorksheetExtras(worksheet)
+                    extras.images = extras.images || []
+                    extras.images.push({ address: { r: R, c: C }, image: cellData.image })
+                }
             }
         }
     }
@@ -993,6 +3459,12 @@ export const convertToFile = TableToXlsx.convertToFile.bind(TableToXlsx)
 export const convertToBuffer = TableToXlsx.convertToBuffer.bind(TableToXlsx)
 export const convertStream = TableToXlsx.convertStream.bind(TableToXlsx)
 export const createStreamProcessor = TableToXlsx.createStreamProcessor.bind(TableToXlsx)
+export const createConvertStream = TableToXlsx.createConvertStream.bind(TableToXlsx)
+export const convertRows = TableToXlsx.convertRows.bind(TableToXlsx)
+export const convertRowsStream = TableToXlsx.convertRowsStream.bind(TableToXlsx)
+export const toHtml = TableToXlsx.toHtml.bind(TableToXlsx)
+
+export { bootstrapClassMap, tailwindClassMap } from './classMaps'
 
 // Also export the class as a named export for namespace imports
 export { TableToXlsx }
@@ -0,0 +1,98 @@
+import type { HeaderFooterText, PageSetup, PaperSize } from './index'
+import { escapeXml } from './xlsxPackage'
+
+// Excel paper size codes
+const PAPER_SIZES: { [size in PaperSize]: number } = {
+    letter: 1,
+    tabloid: 3,
+    legal: 5,
+    a3: 8,
+    a4: 9,
+    a5: 11
+}
+
+// Header and footer placeholders and the Excel codes printing them
+const HEADER_FOOTER_FIELDS: { [field: string]: string } = {
+    page: '&P',
+    pages: '&N',
+    date: '&D',
+    time: '&T',
+    sheet: '&A'
+}
+
+// Excel's "Normal" margins, in inches
+export const DEFAULT_MARGINS = { left: 0.7, right: 0.7, top: 0.75, bottom: 0.75, header: 0.3, footer: 0.3 }
+
+export type PageMargins = typeof DEFAULT_MARGINS
+
+/**
+ * Margins of a page setup in inches, with Excel's defaults for the ones it leaves out
+ */
+export function pageMargins(page: PageSetup): PageMargins {
+    return { ...DEFAULT_MARGINS, ...page.margins }
+}
+
+export function pageMarginsXml(margins: PageMargins): string {
+    return `<pageMargins left="${margins.left}" right="${margins.right}" top="${margins.top}" bottom="${margins.bottom}" header="${margins.header}" footer="${margins.footer}"/>`
+}
+
+/**
+ * Whether the sheet prints shrunk to a number of pages, which needs <pageSetUpPr fitToPage="1"/>
+ */
+export function fitsToPage(page: PageSetup): boolean {
+    return !!page.fitToWidth
+}
+
+/**
+ * Print settings around the page margins: <printOptions> before them, <pageSetup> and <headerFooter> after them
+ * Settings left at Excel's default give no attribute, and no element when none is set
+ */
+export function pageSetupXml(page: PageSetup): { printOptions: string, pageSetup: string } {
+    const paperSize = typeof page.paperSize === 'string' ? PAPER_SIZES[page.paperSize] : page.paperSize
+    const fitToWidth = page.fitToWidth === true ? 1 : page.fitToWidth || 0
+    const attributes = [
+        paperSize ? ` paperSize="${paperSize}"` : '',
+        page.scale && !fitToWidth ? ` scale="${Math.min(Math.max(Math.round(page.scale), 10), 400)}"` : '',
+        // A fit height of 0 lets the pages run on as far as the rows need
+        fitToWidth ? ` fitToWidth="${fitToWidth}" fitToHeight="0"` : '',
+        page.orientation ? ` orientation="${page.orientation}"` : ''
+    ].join('')
+
+    const header = page.header ? `<oddHeader>${escapeXml(headerFooterCodes(page.header))}</oddHeader>` : ''
+    const footer = page.footer ? `<oddFooter>${escapeXml(headerFooterCodes(page.footer))}</oddFooter>` : ''
+
+    return {
+        printOptions: page.centerHorizontally ? '<printOptions horizontalCentered="1"/>' : '',
+        pageSetup: (attributes ? `<pageSetup${attributes}/>` : '') + (header || footer ? `<headerFooter>${header}${footer}</headerFooter>` : '')
+    }
+}
+
+/**
+ * Manual page breaks before the given zero-based rows
+ */
+export function rowBreaksXml(rows: number[]): string {
+    if (rows.length === 0) return ''
+    // A break's id is the last row of the page before it, one-based
+    const breaks = rows.map(r => `<brk id="${r}" max="16383" man="1"/>`).join('')
+    return `<rowBreaks count="${rows.length}" manualBreakCount="${rows.length}">${breaks}</rowBreaks>`
+}
+
+/**
+ * Reference of the rows repeated at the top of every printed page ('Sheet 1'!$1:$2)
+ * @param rows Number of leading rows
+ */
+export function printTitlesRef(sheetName: string, rows: number): string {
+    return `'${sheetName.replace(/'/g, "''")}'!$1:$${rows}`
+}
+
+// Header or footer text in Excel's codes: a plain string is centered, & is doubled and placeholders become fields
+function headerFooterCodes(text: HeaderFooterText): string {
+    const sections = typeof text === 'string' ? { center: text } : text
+    const codes = (value: string) => value
+        .replace(/&/g, '&&')
+        .replace(/\{(\w+)\}/g, (placeholder, field: string) => HEADER_FOOTER_FIELDS[field] ?? placeholder)
+
+    return (sections.left ? `&L${codes(sections.left)}` : '') +
+        (sections.center ? `&C${codes(sections.center)}` : '') +
+        (sections.right ? `&R${codes(sections.right)}` : '')
+}
@@ -0,0 +1,60 @@
+import type { ProtectionAction, SheetProtection } from './index'
+
+// Actions a protected sheet allows when the protection lists none, as in Excel's Protect Sheet dialog
+const DEFAULT_ALLOWED_ACTIONS: ProtectionAction[] = ['selectLockedCells', 'selectUnlockedCells']
+
+// Actions whose attribute forbids them when set; the attributes of the other actions allow them when cleared
+const FORBIDDING_ACTIONS: ProtectionAction[] = ['objects', 'scenarios', 'selectLockedCells', 'selectUnlockedCells']
+
+const ACTIONS: ProtectionAction[] = [
+    'objects', 'scenarios', 'formatCells', 'formatColumns', 'formatRows', 'insertColumns', 'insertRows', 'insertHyperlinks',
+    'deleteColumns', 'deleteRows', 'selectLockedCells', 'sort', 'autoFilter', 'pivotTables', 'selectUnlockedCells'
+]
+
+/**
+ * <sheetProtection> of a protected sheet, with the legacy password hash Excel checks before unprotecting it
+ */
+export function sheetProtectionXml(protection: SheetProtection): string {
+    const allowed = protection.allow || DEFAULT_ALLOWED_ACTIONS
+    const attributes = ACTIONS.map(action => {
+        if (FORBIDDING_ACTIONS.includes(action)) return allowed.includes(action) ? '' : ` ${action}="1"`
+        return allowed.includes(action) ? ` ${action}="0"` : ''
+    }).join('')
+
+    return `<sheetProtection${protection.password ? ` password="${passwordHash(protection.password)}"` : ''} sheet="1"${attributes}/>`
+}
+
+/**
+ * A copy of a cell format (<xf>) whose cells stay editable on a protected sheet
+ */
+export function unlockedFormatXml(xf: string): string {
+    const applied = xf.replace(/\s+applyProtection="[^"]*"/, '').replace(/^(<xf\b[^>]*?)(\/?>)/, '$1 applyProtection="1"$2')
+    const protection = '<protection locked="0"/>'
+    return applied.endsWith('/>')
+        ? applied.replace(/\/>$/, `>${protection}</xf>`)
+        : applied.replace(/<protection\b[^>]*\/>/, '').replace(/(<extLst>|<\/xf>)/, `${protection}$1`)
+}
+
+/**
+ * Cell formats (<xf> in <cellXfs>) of a styles part, by index
+ */
+export function cellFormats(stylesXml: string): string[] {
+    const list = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] || ''
+    return Array.from(list.matchAll(/<xf\b[^>]*?(?:\/>|>[\s\S]*?<\/xf>)/g), match => match[0])
+}
+
+export function replaceCellFormats(stylesXml: string, formats: string[]): string {
+    return stylesXml.replace(/<cellXfs\b[^>]*>[\s\S]*?<\/cellXfs>/, `<cellXfs count="${formats.length}">${formats.join('')}</cellXfs>`)
+}
+
+// 16-bit hash of ECMA-376 Part 4, 14.7.1, written as hexadecimal
+function passwordHash(password: string): string {
+    const bytes = Array.from(password, char => char.charCodeAt(0) & 0xFF)
+    let hash = 0
+    for (let i = bytes.length - 1; i >= 0; i--) {
+        hash = ((hash >> 14) & 0x01) | ((hash << 1) & 0x7FFF)
+        hash ^= bytes[i]
+    }
+    hash = ((hash >> 14) & 0x01) | ((hash << 1) & 0x7FFF)
+    return (hash ^ bytes.length ^ 0xCE4B).toString(16).toUpperCase()
+}
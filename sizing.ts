@@ -0,0 +1,145 @@
+import { parseLength } from './css'
+
+// Pixels per character and cell padding of xlsx-js-style's column model, so widths read back as the same pixels
+const CHARACTER_PX = 6
+const COLUMN_PADDING_PX = 5
+const DEFAULT_FONT_SIZE = 11
+const MIN_ROW_HEIGHT = 15
+
+// Width of a column and height of a row Excel draws without a size of their own
+export const DEFAULT_COLUMN_PX = 64
+export const DEFAULT_ROW_PX = 20
+
+// Limits of measured column widths, in characters
+const MIN_AUTO_WIDTH = 10
+const MAX_AUTO_WIDTH = 50
+
+// Width that percentages refer to when the table has no absolute width
+export const DEFAULT_TABLE_WIDTH_PX = 960
+
+// Code point ranges drawn two characters wide: East Asian wide/fullwidth characters and emoji
+const WIDE_RANGES: [number, number][] = [
+    [0x1100, 0x115F], [0x2E80, 0x303E], [0x3041, 0x33FF], [0x3400, 0x4DBF], [0x4E00, 0x9FFF],
+    [0xA000, 0xA4CF], [0xAC00, 0xD7A3], [0xF900, 0xFAFF], [0xFE30, 0xFE4F], [0xFF00, 0xFF60],
+    [0xFFE0, 0xFFE6], [0x1F300, 0x1FAFF], [0x20000, 0x3FFFD]
+]
+
+// Combining marks, zero width joiner and variation selectors take no room of their own
+const ZERO_WIDTH_RANGES: [number, number][] = [
+    [0x0300, 0x036F], [0x200B, 0x200F], [0xFE00, 0xFE0F], [0x1F3FB, 0x1F3FF], [0xE0100, 0xE01EF]
+]
+
+const ZERO_WIDTH_JOINER = 0x200D
+
+export interface TextFont {
+    bold?: boolean
+    // Points
+    size?: number
+}
+
+export interface MeasuredCell {
+    text: string
+    font?: TextFont
+    // Wrapped text grows over several lines when `width` is known
+    wrap?: boolean
+    // Column width in characters (the sum of the columns of a merged cell)
+    width?: number
+}
+
+/**
+ * Convert an HTML width/height attribute or CSS length to pixels
+ * Unitless values are pixels; 'auto', relative lengths ('2*') and percentages without `percentOfPx` give undefined
+ * @param fontSize Font size in points, used for em units
+ * @param percentOfPx Length that 100% refers to
+ */
+export function parseSize(value: string | undefined, fontSize = DEFAULT_FONT_SIZE, percentOfPx?: number): number | undefined {
+    const text = value?.trim().toLowerCase()
+    if (!text) return undefined
+
+    if (text.endsWith('%')) {
+        const percent = parseFloat(text)
+        return percentOfPx !== undefined && percent >= 0 ? percent * percentOfPx / 100 : undefined
+    }
+
+    const pixels = parseLength(text, fontSize * 4 / 3)
+    return pixels !== undefined && pixels >= 0 ? pixels : undefined
+}
+
+/**
+ * Pixels to an Excel column width in characters
+ */
+export function pixelsToColumnWidth(pixels: number): number {
+    return Math.max(0, Math.round((pixels - COLUMN_PADDING_PX) / CHARACTER_PX * 100) / 100)
+}
+
+/**
+ * Excel column width in characters to pixels
+ */
+export function columnWidthToPixels(width: number): number {
+    return Math.round(width * CHARACTER_PX + COLUMN_PADDING_PX)
+}
+
+/**
+ * Pixels to an Excel row height in points
+ */
+export function pixelsToPoints(pixels: number): number {
+    return Math.round(pixels * 0.75 * 100) / 100
+}
+
+/**
+ * Display width of text in characters of the default font: the widest of its lines,
+ * counting wide characters and emoji twice and scaled for bold and larger fonts
+ */
+export function textWidth(text: string, font: TextFont = {}): number {
+    let widest = 0
+
+    for (const line of text.split('\n')) {
+        let width = 0
+        let joined = false
+        for (const char of line) {
+            const codePoint = char.codePointAt(0) as number
+            // The second half of a ZWJ emoji sequence is drawn into the first
+            if (!joined) width += characterWidth(codePoint)
+            joined = codePoint === ZERO_WIDTH_JOINER
+        }
+        widest = Math.max(widest, width)
+    }
+
+    return widest * (font.bold ? 1.1 : 1) * (font.size || DEFAULT_FONT_SIZE) / DEFAULT_FONT_SIZE
+}
+
+/**
+ * Column width for the widest measured content, with room for padding, kept within 10 to 50 characters
+ */
+export function autoColumnWidth(contentWidth: number): number {
+    return Math.min(Math.max(Math.ceil(contentWidth) + 2, MIN_AUTO_WIDTH), MAX_AUTO_WIDTH)
+}
+
+/**
+ * Row height in points for its tallest cell: one line per line break,
+ * plus the lines wrapped text needs within its column width
+ */
+export function autoRowHeight(cells: MeasuredCell[]): number {
+    let height = MIN_ROW_HEIGHT
+
+    cells.forEach(cell => {
+        if (!cell.text) return
+
+        const lines = cell.text.split('\n').reduce((count, line) =>
+            count + (cell.wrap !== false && cell.width ? Math.max(1, Math.ceil(textWidth(line, cell.font) / cell.width)) : 1), 0)
+
+        // Excel row height is roughly 1.2x the font size per line
+        height = Math.max(height, lines * (cell.font?.size || DEFAULT_FONT_SIZE) * 1.2)
+    })
+
+    return Math.round(height * 100) / 100
+}
+
+function characterWidth(codePoint: number): number {
+    if (codePoint === ZERO_WIDTH_JOINER || inRanges(codePoint, ZERO_WIDTH_RANGES)) return 0
+    return inRanges(codePoint, WIDE_RANGES) ? 2 : 1
+}
+
+function inRanges(codePoint: number, ranges: [number, number][]): boolean {
+    return ranges.some(([start, end]) => codePoint >= start && codePoint <= end)
+}
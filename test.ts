@@ -1,5 +1,12 @@
 import * as fs from 'fs';
-import TableToXlsx, { convert, convertToBuffer, convertToFile } from './index';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { pathToFileURL } from 'url';
+import * as XLSX from 'xlsx-js-style';
+import TableToXlsx, { bootstrapClassMap, convert, convertRows, convertRowsStream, convertToBuffer, convertToFile, createConvertStream, createStreamProcessor, tailwindClassMap, toHtml, type ColumnDefinition } from './index';
+import { MAX_COLUMNS, MAX_ROWS } from './xlsxStreamWriter';
 
 async function testPackage() {
     console.log('🧪 Testing @nodewave/table-to-xlsx package...\n');
@@ -100,6 +107,992 @@ async function testPackage() {
         return;
     }
 
+    // Test 6: Typed cell values
+    console.log('\n6. Testing typed cell value inference...');
+    try {
+        const typedHtml = `
+            <table>
+                <tr><th>Price</th><th>Share</th><th>Date</th><th>Active</th><th>Code</th></tr>
+                <tr><td>$1,299.50</td><td>12.5%</td><td>2024-03-01</td><td>TRUE</td><td>00123</td></tr>
+            </table>
+        `;
+        const sheet = readFirstSheet(await convertToBuffer(typedHtml));
+        const typed = sheet['A2'].t === 'n' && sheet['A2'].v === 1299.5 && sheet['A2'].z === '"$"#,##0.00'
+            && sheet['B2'].v === 0.125 && sheet['B2'].z === '0.0%'
+            && sheet['C2'].t === 'n' && sheet['C2'].z === 'yyyy-mm-dd'
+            && sheet['D2'].t === 'b' && sheet['D2'].v === true
+            && sheet['E2'].t === 's' && sheet['E2'].v === '00123';
+
+        const untyped = readFirstSheet(await convertToBuffer(typedHtml, { inferTypes: false }));
+
+        if (typed && untyped['A2'].t === 's') {
+            console.log('✅ Typed cell values successful!');
+        } else {
+            console.log('❌ Typed cell values produced unexpected cells');
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Typed cell values failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 7: Explicit value attributes
+    console.log('\n7. Testing data-xlsx-* value attributes...');
+    try {
+        const attributeHtml = `
+            <table>
+                <tr>
+                    <td data-xlsx-value="1200000" data-xlsx-format="#,##0">1.2M</td>
+                    <td data-xlsx-type="string">42</td>
+                    <td data-xlsx-type="date" data-xlsx-value="2024-01-05" data-xlsx-format="dd/mm/yyyy">5 Jan</td>
+                </tr>
+            </table>
+        `;
+        const sheet = readFirstSheet(await convertToBuffer(attributeHtml));
+
+        if (sheet['A1'].v === 1200000 && sheet['A1'].z === '#,##0'
+            && sheet['B1'].t === 's' && sheet['B1'].v === '42'
+            && sheet['C1'].t === 'n' && sheet['C1'].z === 'dd/mm/yyyy') {
+            console.log('✅ Value attributes successful!');
+        } else {
+            console.log('❌ Value attributes produced unexpected cells');
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Value attributes failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 8: One worksheet per table
+    console.log('\n8. Testing multi-sheet conversion...');
+    try {
+        const multiHtml = `
+            <table><caption>Summary: Q1/Q2</caption><tr><th>Total</th></tr><tr><td>3</td></tr></table>
+            <table data-sheet-name="Details"><tr><td>1</td></tr><tr><td>2</td></tr></table>
+            <table data-sheet-name="details"><tr><td>x</td></tr></table>
+        `;
+        const workbook = XLSX.read(await convertToBuffer(multiHtml), { type: 'buffer' });
+        const names = workbook.SheetNames.join('|');
+
+        if (names === 'Summary Q1 Q2|Details|details (2)' && workbook.Sheets['Details']['!ref'] === 'A1:A2') {
+            console.log('✅ Multi-sheet conversion successful!');
+        } else {
+            console.log('❌ Multi-sheet conversion produced unexpected sheets:', names);
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Multi-sheet conversion failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 9: Formulas with layout references
+    console.log('\n9. Testing formulas...');
+    try {
+        const formulaHtml = `
+            <table>
+                <tr><th colspan="2">Item</th><th>Amount</th></tr>
+                <tr><td rowspan="2">Group</td><td>A</td><td id="first">10</td></tr>
+                <tr><td>B</td><td>20</td></tr>
+                <tr><td colspan="2">Total</td><td data-xlsx-formula="=SUM({above})">30</td></tr>
+                <tr><td colspan="2">Double first</td><td data-xlsx-formula="={#first}*2">20</td></tr>
+            </table>
+        `;
+        const sheet = readFirstSheet(await convertToBuffer(formulaHtml));
+
+        if (sheet['C4'].f === 'SUM(C2:C3)' && sheet['C4'].v === 30 && sheet['C5'].f === 'C2*2') {
+            console.log('✅ Formulas successful!');
+        } else {
+            console.log('❌ Formulas produced unexpected cells:', sheet['C4'], sheet['C5']);
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Formulas failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 10: Hyperlinks
+    console.log('\n10. Testing hyperlinks...');
+    try {
+        const linkHtml = `
+            <table data-sheet-name="Links">
+                <tr>
+                    <td><a href="https://example.com" title="Open">Site</a> or <a href="https://example.org">mirror</a></td>
+                    <td><a href="mailto:team@example.com">Mail</a></td>
+                    <td><a href="#total">Jump</a></td>
+                    <td id="total">5</td>
+                    <td><a href="https://example.net" style="text-decoration: none; color: #ff0000">Plain</a></td>
+                </tr>
+            </table>
+        `;
+        const buffer = await convertToBuffer(linkHtml);
+        const sheet = readFirstSheet(buffer);
+        const sheetXml = readPart(buffer, 'xl/worksheets/sheet1.xml');
+        const stylesXml = readPart(buffer, 'xl/styles.xml');
+        const fonts = stylesXml.match(/<fonts[^>]*>([\s\S]*?)<\/fonts>/)?.[1].match(/<font\b[^>]*?(?:\/>|>[\s\S]*?<\/font>)/g) || [];
+        const formats = stylesXml.match(/<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1].match(/<xf\b[^>]*/g) || [];
+        const fontOf = (address: string) =>
+            fonts[parseInt(formats[parseInt(sheetXml.match(new RegExp(`<c r="${address}"[^>]*?\\ss="(\\d+)"`))?.[1] || '0')]?.match(/fontId="(\d+)"/)?.[1] || '0')] || '';
+        const lastSheet = readFirstSheet(await convertToBuffer(linkHtml, { hyperlinks: 'last' }));
+
+        if (sheet['A1'].l?.Target === 'https://example.com' && sheet['A1'].l?.Tooltip === 'Open'
+            && sheet['B1'].l?.Target === 'mailto:team@example.com'
+            && sheet['C1'].l?.Target === "#'Links'!D1"
+            && lastSheet['A1'].l?.Target === 'https://example.org'
+            && fontOf('A1').includes('<u/>') && fontOf('A1').includes('0563C1')
+            && sheet['E1'].l?.Target === 'https://example.net' && !fontOf('E1').includes('<u') && fontOf('E1').includes('FF0000')) {
+            console.log('✅ Hyperlinks successful!');
+        } else {
+            console.log('❌ Hyperlinks produced unexpected links');
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Hyperlinks failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 11: Rich text runs
+    console.log('\n11. Testing rich text...');
+    try {
+        const richHtml = `<table><tr><td>Total <b>incl. VAT</b> <i>(est.)</i></td><td>H<sub>2</sub>O</td></tr></table>`;
+        const sheet = readFirstSheet(await convertToBuffer(richHtml));
+
+        // Tables over the large-table threshold keep their runs
+        const processor = createStreamProcessor();
+        processor.writeHeader('<table><tr><th>Label</th></tr></table>');
+        processor.writeRow('<tr><td>Total <b>incl</b></td></tr>');
+        for (let i = 0; i < 10000; i++) {
+            processor.writeRow(`<tr><td>${i}</td></tr>`);
+        }
+        const largeXml = readPart(await processor.finalize() as Buffer, 'xl/worksheets/sheet1.xml');
+
+        if (sheet['A1'].v === 'Total incl. VAT (est.)' && sheet['A1'].h?.includes('<b>incl. VAT</b>')
+            && sheet['A1'].h?.includes('<i>(est.)</i>') && sheet['B1'].h?.includes('<sub>2</sub>')
+            && /<c r="A2"[^>]* t="inlineStr"><is><r><t xml:space="preserve">Total <\/t><\/r><r><rPr><b\/>/.test(largeXml)) {
+            console.log('✅ Rich text successful!');
+        } else {
+            console.log('❌ Rich text produced unexpected cells:', sheet['A1'], sheet['B1']);
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Rich text failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 12: CSS value parsing
+    console.log('\n12. Testing CSS styles...');
+    try {
+        const cssHtml = `<table><tr><td style="background-color: rgba(255, 0, 0, 0.5); color: hsl(120, 100%, 25%); font-style: italic; text-decoration: underline; font-family: 'Georgia', serif; vertical-align: top; padding-left: 20px; border-top: 2px dashed #f00; border-bottom: none">A</td><td style="border: 1px solid rgb(204, 204, 204); background: #abc">B</td></tr></table>`;
+        const buffer = await convertToBuffer(cssHtml) as Buffer;
+        const workbook = XLSX.read(buffer, { type: 'buffer', cellStyles: true });
+        const sheet = workbook.Sheets[workbook.SheetNames[0]];
+        const styles = readPart(buffer, 'xl/styles.xml');
+
+        if (sheet['A1'].s?.fgColor?.rgb === 'FF8080' && sheet['B1'].s?.fgColor?.rgb === 'AABBCC'
+            && /<name val="Georgia"\/><u\/><i\/><color rgb="008000"\/>/.test(styles)
+            && styles.includes('<top style="mediumDashed"><color rgb="FF0000"/></top><bottom/>')
+            && styles.includes('<left style="thin"><color rgb="CCCCCC"/></left>')
+            && styles.includes('<alignment horizontal="left" vertical="top" indent="2" wrapText="true"/>')) {
+            console.log('✅ CSS styles successful!');
+        } else {
+            console.log('❌ CSS styles produced unexpected output:', sheet['A1'].s, sheet['B1'].s);
+            return;
+        }
+    } catch (error) {
+        console.log('❌ CSS styles failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 13: Style sheets and inheritance
+    console.log('\n13. Testing style sheet cascade...');
+    try {
+        const cascadeHtml = `<style>
+            table.report td { color: #333333 }
+            .negative { color: red !important }
+            tr.total { font-weight: bold; background-color: #EEEEEE }
+        </style>
+        <table class="report" style="font-family: Georgia">
+            <tr class="total"><td>Total</td><td class="negative" style="color: black">-5</td><td style="background: yellow">x</td></tr>
+        </table>`;
+        const buffer = await convertToBuffer(cascadeHtml, { css: 'td { font-style: italic }' });
+        const workbook = XLSX.read(buffer, { type: 'buffer', cellStyles: true });
+        const sheet = workbook.Sheets[workbook.SheetNames[0]];
+        const styles = readPart(buffer, 'xl/styles.xml');
+
+        if (sheet['A1'].s?.fgColor?.rgb === 'EEEEEE' && sheet['C1'].s?.fgColor?.rgb === 'FFFF00'
+            && styles.includes('<name val="Georgia"/><b/><i/><color rgb="333333"/>')
+            && styles.includes('<name val="Georgia"/><b/><i/><color rgb="FF0000"/>')) {
+            console.log('✅ Style sheet cascade successful!');
+        } else {
+            console.log('❌ Style sheet cascade produced unexpected output:', sheet['A1'].s, sheet['C1'].s);
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Style sheet cascade failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 14: Class maps and presets
+    console.log('\n14. Testing class maps...');
+    try {
+        const classHtml = `<table>
+            <tr class="table-success"><td class="fw-bold text-end">Paid</td><td class="status">Late</td></tr>
+            <tr><td class="bg-red-100 italic text-sm">Overdue</td><td class="text-right">Legacy</td></tr>
+        </table>`;
+        const buffer = await convertToBuffer(classHtml, {
+            classMap: { ...bootstrapClassMap, ...tailwindClassMap, status: { color: 'C00000' } }
+        });
+        const workbook = XLSX.read(buffer, { type: 'buffer', cellStyles: true });
+        const sheet = workbook.Sheets[workbook.SheetNames[0]];
+        const styles = readPart(buffer, 'xl/styles.xml');
+
+        if (sheet['A1'].s?.fgColor?.rgb === 'D1E7DD' && sheet['B1'].s?.fgColor?.rgb === 'D1E7DD'
+            && sheet['A2'].s?.fgColor?.rgb === 'FEE2E2'
+            && styles.includes('<sz val="10"/><name val="Calibri"/><i/>')
+            && styles.includes('<color rgb="C00000"/>')
+            && styles.includes('<alignment horizontal="right" vertical="center" wrapText="true"/>')) {
+            console.log('✅ Class maps successful!');
+        } else {
+            console.log('❌ Class maps produced unexpected output:', sheet['A1'].s, sheet['A2'].s);
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Class maps failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 15: Incremental stream processor
+    console.log('\n15. Testing incremental streaming...');
+    try {
+        const written = collectOutput();
+
+        const processor = createStreamProcessor(undefined, { output: written.output, sampleRows: 2 });
+        processor.writeHeader('<table data-sheet-name="Items"><tr><th rowspan="2">Item</th><th colspan="2">Price</th></tr><tr><th>Net</th><th>Gross</th></tr></table>');
+        for (let i = 1; i <= 5; i++) {
+            if (!processor.writeRow(`<tr><td>Item ${i}</td><td>${i * 10}</td><td>$${i * 12}.00</td></tr>`)) {
+                await processor.drain();
+            }
+        }
+        processor.writeRow('<tr><td><a href="https://example.com">Total</a></td><td data-xlsx-formula="SUM({above})"></td><td></td></tr>');
+        processor.writeRow('<tr><td data-xlsx-formula="=1+1">2</td><td data-xlsx-formula="A3&amp;&quot;!&quot;">Item 1!</td><td data-xlsx-formula="A9=2">TRUE</td></tr>');
+        await processor.finalize();
+
+        const workbook = XLSX.read(written.buffer(), { type: 'buffer', cellNF: true, sheetStubs: true });
+        const sheet = workbook.Sheets['Items'];
+        const sheetXml = readPart(written.buffer(), 'xl/worksheets/sheet1.xml');
+
+        // Rows beyond Excel's worksheet size are refused instead of written into a package Excel rejects
+        const limited = createStreamProcessor(undefined, { output: collectOutput().output });
+        limited.writeHeader('<table><tr><th>Key</th></tr></table>');
+        const overflow = (() => {
+            try {
+                limited.writeRow(`<tr>${'<td>1</td>'.repeat(MAX_COLUMNS + 1)}</tr>`);
+                return '';
+            } catch (error) {
+                return (error as Error).message;
+            }
+        })();
+        await limited.finalize();
+
+        if (sheet && sheet['!merges']?.length === 2 && sheet['B8'].f === 'SUM(B3:B7)'
+            && sheet['C3'].v === 12 && sheet['C3'].z === '"$"#,##0.00'
+            && sheet['A8'].l?.Target === 'https://example.com' && sheet['A3'].v === 'Item 1'
+            && /<c r="A9"[^>]*><f>1\+1<\/f><v>2<\/v><\/c>/.test(sheetXml)
+            && /<c r="B9"[^>]* t="str"><f>A3&amp;&quot;!&quot;<\/f><v>Item 1!<\/v><\/c>/.test(sheetXml)
+            && /<c r="C9"[^>]* t="b"><f>A9=2<\/f><v>1<\/v><\/c>/.test(sheetXml)
+            && sheet['B9'].v === 'Item 1!' && sheet['C9'].v === true
+            && MAX_ROWS === 1048576 && MAX_COLUMNS === 16384 && overflow.includes('at most 16384 columns')) {
+            console.log('✅ Incremental streaming successful!');
+        } else {
+            console.log('❌ Incremental streaming produced unexpected cells:', sheet && sheet['!merges'], sheet && sheet['B8']);
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Incremental streaming failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 16: HTML stream piped through createConvertStream
+    console.log('\n16. Testing convert stream...');
+    try {
+        const html = '<html><head><style>.total td { font-weight: bold }</style></head><body>'
+            + '<table data-sheet-name="Cafés"><thead><tr><th>Name</th><th>Score</th></tr></thead><tbody>'
+            + '<tr><td>Zoë</td><td>12</td></tr><tr><td>Ana &amp; Bo</td><td>7</td></tr>'
+            + '<tr class="total"><td>Total</td><td>19</td></tr></tbody></table>'
+            + '<table><tr><th>Key</th></tr><tr><td><table><tr><td>nested</td></tr></table></td></tr></table>'
+            + '</body></html>';
+        // Small chunks split tags, entities and multi-byte characters
+        const bytes = Buffer.from(html);
+        const input = Readable.from(Array.from({ length: Math.ceil(bytes.length / 7) }, (_, i) => bytes.subarray(i * 7, i * 7 + 7)));
+
+        const written = collectOutput();
+        await pipeline(input, createConvertStream(), written.output);
+
+        const buffer = written.buffer();
+        const workbook = XLSX.read(buffer, { type: 'buffer' });
+        const scores = workbook.Sheets['Cafés'];
+        const keys = workbook.Sheets[workbook.SheetNames[1]];
+
+        if (workbook.SheetNames.length === 2 && scores && scores['A2'].v === 'Zoë' && scores['A3'].v === 'Ana & Bo'
+            && scores['B4'].v === 19 && keys['A1'].v === 'Key' && keys['A2'].v === 'nested'
+            && readPart(buffer, 'xl/styles.xml').includes('<b/>')) {
+            console.log('✅ Convert stream successful!');
+        } else {
+            console.log('❌ Convert stream produced unexpected sheets:', workbook.SheetNames, scores && scores['A2'], keys && keys['A2']);
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Convert stream failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 17: Structured rows
+    console.log('\n17. Testing structured rows...');
+    try {
+        type Order = { id: string, customer: { name: string }, placed: Date, net: number, paid: boolean };
+        const columns: ColumnDefinition<Order>[] = [
+            { header: 'Order', key: 'id', type: 'string', width: 12 },
+            { header: 'Customer', key: 'customer.name' },
+            {
+                header: 'Details', columns: [
+                    { header: 'Placed', key: 'placed' },
+                    { header: 'Net', key: 'net', format: '#,##0.00', style: value => (value as number) > 100 ? { color: 'FF0000' } : undefined },
+                    { header: 'Gross', accessor: order => order.net * 1.2 },
+                    { header: 'Paid', key: 'paid' }
+                ]
+            }
+        ];
+        const orders: Order[] = [
+            { id: '0042', customer: { name: 'Ana' }, placed: new Date(Date.UTC(2024, 2, 1)), net: 250, paid: true },
+            { id: '0043', customer: { name: 'Bo' }, placed: new Date(Date.UTC(2024, 2, 2, 12, 30)), net: 80, paid: false }
+        ];
+
+        const buffer = await convertRows({ columns, rows: orders, name: 'Orders' }) as Buffer;
+        const sheet = XLSX.read(buffer, { type: 'buffer', cellNF: true, cellStyles: true }).Sheets['Orders'];
+
+        async function* cursor() {
+            for (const order of orders) yield order;
+        }
+        const streamed = XLSX.read(await convertRowsStream({ columns, rows: cursor(), name: 'Orders' }), { type: 'buffer', cellNF: true }).Sheets['Orders'];
+
+        const checks = (s: XLSX.WorkSheet) => s['!merges']?.length === 3 && s['C1'].v === 'Details' && s['F2'].v === 'Paid'
+            && s['A3'].v === '0042' && s['B4'].v === 'Bo' && s['C3'].z === 'yyyy-mm-dd' && s['C3'].v === 45352
+            && s['C4'].z === 'yyyy-mm-dd hh:mm:ss' && s['D3'].v === 250 && s['D3'].z === '#,##0.00'
+            && s['E4'].v === 96 && s['F3'].v === true;
+
+        if (sheet && streamed && checks(sheet) && checks(streamed) && sheet['!cols']?.[0].wch === 12
+            && readPart(buffer, 'xl/styles.xml').includes('FF0000')) {
+            console.log('✅ Structured rows successful!');
+        } else {
+            console.log('❌ Structured rows produced unexpected cells:', sheet && sheet['!merges'], streamed && streamed['!merges']);
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Structured rows failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 18: XLSX back to HTML
+    console.log('\n18. Testing HTML rendering round trip...');
+    try {
+        const sourceHtml = `
+            <table data-sheet-name="Report">
+                <tr><th colspan="2" style="background: #eee; border-bottom: 2px dashed red">Sales</th><th rowspan="2">Note</th></tr>
+                <tr><th style="text-align: left; padding-left: 20px">00123</th><th>Total <b>net</b></th></tr>
+                <tr><td>$1,299.50</td><td style="font-size: 16px; color: navy; text-decoration: underline">2024-03-01</td><td><a href="https://example.com">link</a></td></tr>
+                <tr><td data-xlsx-formula="SUM(A3:A3)" style="font-weight: bold">1299.5</td><td>TRUE</td><td style="vertical-align: top; border: none">a &amp; b</td></tr>
+            </table>
+        `;
+        const rendered = await toHtml(await convertToBuffer(sourceHtml), { headerRows: 2 });
+        const rerendered = await toHtml(await convertToBuffer(rendered), { headerRows: 2 });
+        const sheet = readFirstSheet(await convertToBuffer(rendered));
+
+        const uploaded = XLSX.utils.aoa_to_sheet([['Script', 'Data', 'Site', 'Cell']]);
+        uploaded['A1'].l = { Target: 'javascript:alert(1)' };
+        uploaded['B1'].l = { Target: ' data:text/html,<script>alert(1)</script>' };
+        uploaded['C1'].l = { Target: 'https://example.com' };
+        uploaded['D1'].l = { Target: '#Sheet1!A1' };
+        const uploadedBook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(uploadedBook, uploaded, 'Sheet1');
+        const uploadedHtml = await toHtml(XLSX.write(uploadedBook, { type: 'buffer', bookType: 'xlsx' }));
+
+        // Rich text runs holding markup are shown as text
+        const hostileBook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(hostileBook, XLSX.utils.aoa_to_sheet([['Hostile']]), 'Sheet1');
+        const hostileZip = (XLSX as any).CFB.read(XLSX.write(hostileBook, { type: 'buffer', bookType: 'xlsx', bookSST: true }), { type: 'buffer' });
+        (XLSX as any).CFB.find(hostileZip, '/xl/sharedStrings.xml').content = Buffer.from(
+            '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" count="1" uniqueCount="1">' +
+            '<si><r><rPr><b/></rPr><t>&lt;img src=x onerror=alert(3)&gt;</t></r><r><rPr><color rgb="FFFF0000"/></rPr><t xml:space="preserve"> &amp; red</t></r></si></sst>');
+        const hostileHtml = await toHtml((XLSX as any).CFB.write(hostileZip, { type: 'buffer', fileType: 'zip' }));
+
+        if (rendered === rerendered && rendered.includes('<table data-sheet-name="Report">')
+            && rendered.includes('<th colspan="2" style="background-color: #EEEEEE;') && rendered.includes('border-bottom: medium dashed #FF0000')
+            && rendered.includes('<th rowspan="2"') && rendered.includes('padding-left: 20px') && rendered.includes('color: #000080; font-size: 16pt;')
+            && rendered.includes('<a href="https://example.com">link</a>') && rendered.includes('vertical-align: top; border: none')
+            && sheet['A2'].v === '00123' && sheet['A3'].v === 1299.5 && sheet['A4'].f === 'SUM(A3:A3)' && sheet['B3'].z === 'yyyy-mm-dd'
+            && sheet['!merges']?.length === 2
+            && !uploadedHtml.includes('javascript:') && !uploadedHtml.includes('data:') && uploadedHtml.includes('>Script</td>')
+            && uploadedHtml.includes('<a href="https://example.com">Site</a>') && uploadedHtml.includes('<a href="#Sheet1!A1">Cell</a>')
+            && !hostileHtml.includes('<img') && hostileHtml.includes('<b>&lt;img src=x onerror=alert(3)&gt;</b><span style="color: #FF0000"> &amp; red</span>')) {
+            console.log('✅ HTML rendering round trip successful!');
+        } else {
+            console.log('❌ HTML rendering produced unexpected markup:', rendered);
+            return;
+        }
+    } catch (error) {
+        console.log('❌ HTML rendering failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 19: Output formats
+    console.log('\n19. Testing output formats...');
+    try {
+        const formatHtml = `
+            <table>
+                <tr><th colspan="2">Region, area</th><th>Amount</th></tr>
+                <tr><td>North</td><td>Say "hi"</td><td>$1,299.50</td></tr>
+            </table>
+        `;
+        const csv = (await convertToBuffer(formatHtml, { outputFormat: 'csv' })).toString('utf8');
+        const tsv = (await convertToBuffer(formatHtml, {
+            outputFormat: 'tsv',
+            csv: { mergedCells: 'repeat', quote: 'always', bom: true, lineEnding: '\r\n' }
+        })).toString('utf8');
+
+        const readable = await Promise.all((['ods', 'xlsb', 'xls'] as const).map(async outputFormat => {
+            const sheet = readFirstSheet(await convertToBuffer(formatHtml, { outputFormat }));
+            return sheet['A2'].v === 'North' && sheet['C2'].v === 1299.5 && sheet['!merges']?.length === 1;
+        }));
+
+        let mismatch = '';
+        try {
+            await convertToFile(formatHtml, './test-output.csv', { outputFormat: 'xlsx' });
+        } catch (error) {
+            mismatch = (error as Error).message;
+        }
+
+        if (csv === '"Region, area",,Amount\nNorth,"Say ""hi""","$1,299.50"\n'
+            && tsv === '\uFEFF"Region, area"\t"Region, area"\t"Amount"\r\n"North"\t"Say ""hi"""\t"$1,299.50"\r\n'
+            && readable.every(Boolean) && mismatch.includes('does not match outputFormat "xlsx"') && !fs.existsSync('./test-output.csv')) {
+            console.log('✅ Output formats successful!');
+        } else {
+            console.log('❌ Output formats produced unexpected output:', JSON.stringify(csv), JSON.stringify(tsv), readable, mismatch);
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Output formats failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 20: Freeze panes and AutoFilter from the header
+    console.log('\n20. Testing freeze panes and AutoFilter...');
+    try {
+        const headHtml = `
+            <table>
+                <thead>
+                    <tr><th colspan="2">Person</th><th rowspan="2">Score</th></tr>
+                    <tr><th>Name</th><th>City</th></tr>
+                </thead>
+                <tbody><tr><th>Ann</th><td>Oslo</td><td>3</td></tr><tr><th>Bo</th><td>Rome</td><td>5</td></tr></tbody>
+            </table>
+        `;
+        const headBuffer = await convertToBuffer(headHtml, { freezePanes: true, autoFilter: true });
+        const headSheet = readFirstSheet(headBuffer);
+
+        const thBuffer = await convertToBuffer('<table><tr><th>Name</th><th>City</th></tr><tr><td>Ann</td><td>Oslo</td></tr></table>', {
+            freezePanes: { columns: 1 },
+            autoFilter: 'A1:B1'
+        });
+
+        const written = collectOutput();
+        const processor = createStreamProcessor(undefined, { output: written.output, freezePanes: true, autoFilter: true });
+        processor.writeHeader('<table data-sheet-name="Live"><tr><th>Id</th><th>Name</th></tr></table>');
+        processor.writeRow('<tr><td>1</td><td>Ann</td></tr>');
+        processor.writeRow('<tr><td>2</td><td>Bo</td></tr>');
+        await processor.finalize();
+        const streamBuffer = written.buffer();
+
+        if (readPart(headBuffer, 'xl/worksheets/sheet1.xml').includes('<pane ySplit="2" topLeftCell="A3" activePane="bottomLeft" state="frozen"/>')
+            && headSheet['!autofilter']?.ref === 'A2:C4'
+            && readPart(thBuffer, 'xl/worksheets/sheet1.xml').includes('<pane xSplit="1" ySplit="1" topLeftCell="B2" activePane="bottomRight" state="frozen"/>')
+            && readFirstSheet(thBuffer)['!autofilter']?.ref === 'A1:B2'
+            && readPart(streamBuffer, 'xl/worksheets/sheet1.xml').includes('<pane ySplit="1" topLeftCell="A2"')
+            && readPart(streamBuffer, 'xl/worksheets/sheet1.xml').includes('<autoFilter ref="A1:B3"/>')
+            && readPart(streamBuffer, 'xl/workbook.xml').includes('&apos;Live&apos;!$A$1:$B$3</definedName>')) {
+            console.log('✅ Freeze panes and AutoFilter successful!');
+        } else {
+            console.log('❌ Freeze panes and AutoFilter produced unexpected sheets:', headSheet['!autofilter'], readPart(streamBuffer, 'xl/worksheets/sheet1.xml').substring(0, 300));
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Freeze panes and AutoFilter failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 21: Column widths and row heights
+    console.log('\n21. Testing column widths and row heights...');
+    try {
+        const sizedHtml = `
+            <table width="600">
+                <colgroup><col width="120"><col style="width: 50%"><col span="2"></colgroup>
+                <tr><th>Name</th><th>Note</th><th style="min-width: 12em">Wide</th><th>東京都千代田区丸の内一丁目</th></tr>
+                <tr height="40"><td>Ann</td><td>x</td><td>y</td><td>z</td></tr>
+                <tr style="height: 20pt"><td>Bo</td><td>x</td><td>y</td><td>z</td></tr>
+                <tr><td>Line one<br>Line two<br>Line three</td><td>x</td><td>y</td><td>z</td></tr>
+            </table>
+        `;
+        const workbook = XLSX.read(await convertToBuffer(sizedHtml), { type: 'buffer', cellStyles: true });
+        const sheet = workbook.Sheets[workbook.SheetNames[0]];
+        const widths = (sheet['!cols'] || []).map(col => col.wpx);
+        const heights = (sheet['!rows'] || []).map(row => row.hpt);
+
+        const written = collectOutput();
+        const processor = createStreamProcessor(undefined, { output: written.output });
+        processor.writeHeader('<table><col width="120"><tr><th>Id</th><th>Name</th></tr></table>');
+        processor.writeRow('<tr style="height: 30px"><td>1</td><td>Ann<br>Smith</td></tr>');
+        processor.writeRow('<tr><td>2</td><td>Bo<br>Smith</td></tr>');
+        await processor.finalize();
+        const streamXml = readPart(written.buffer(), 'xl/worksheets/sheet1.xml');
+
+        if (widths.slice(0, 3).join(',') === '120,300,176' && sheet['!cols']?.[3]?.wch === 28
+            && heights.join(',') === '15,30,20,39.6' && sheet['A4'].v === 'Line one\nLine two\nLine three'
+            && streamXml.includes('<col min="1" max="1" width="19.17" customWidth="1"/>')
+            && streamXml.includes('<row r="2" ht="22.5"') && streamXml.includes('<row r="3" ht="26.4"')) {
+            console.log('✅ Column widths and row heights successful!');
+        } else {
+            console.log('❌ Column widths and row heights produced unexpected sizes:', widths, heights, streamXml.substring(0, 300));
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Column widths and row heights failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 22: Hidden and excluded content
+    console.log('\n22. Testing hidden and excluded content...');
+    try {
+        const hiddenHtml = `
+            <style>.sr-only { display: none } .export { display: none }</style>
+            <table hidden><tr><td>Draft</td></tr></table>
+            <table>
+                <colgroup><col><col><col data-xlsx-ignore><col data-xlsx-hidden></colgroup>
+                <tr><th>Name</th><th>Team</th><th>Actions</th><th>Id</th></tr>
+                <tr><td rowspan="3">Ann<span class="sr-only"> (you)</span></td><td>Red</td><td><button>Edit</button></td><td>1</td></tr>
+                <tr hidden><td>Helper</td><td>x</td><td>9</td></tr>
+                <tr><td><a href="https://example.com/old" style="display: none">Old</a><a href="https://example.com/blue">Blue</a></td><td>x</td><td>2</td></tr>
+                <tr data-xlsx-hidden><td>Green <span data-xlsx-only class="export">(archived)</span></td><td>Teal</td><td>x</td><td>3</td></tr>
+                <tr class="export" data-xlsx-only><td>Total</td><td colspan="2">Both</td><td>6</td></tr>
+                <tr><td>Bo</td><td data-xlsx-ignore>skip</td><td>Gray</td><td>x</td><td>4</td></tr>
+            </table>
+        `;
+        const workbook = XLSX.read(await convertToBuffer(hiddenHtml), { type: 'buffer', cellStyles: true });
+        const sheet = workbook.Sheets[workbook.SheetNames[0]];
+        const values = JSON.stringify(XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '' }));
+
+        const written = collectOutput();
+        const processor = createStreamProcessor(undefined, { output: written.output });
+        processor.writeHeader('<table><col><col data-xlsx-ignore><col data-xlsx-hidden><tr><th>Id</th><th>Edit</th><th>Name</th></tr></table>');
+        processor.writeRow('<tr><td>1</td><td>e</td><td>Ann</td></tr>');
+        processor.writeRow('<tr hidden><td>2</td><td>e</td><td>Bo</td></tr>');
+        processor.writeRow('<tr data-xlsx-hidden><td>3</td><td>e</td><td>Cy</td></tr>');
+        await processor.finalize();
+        const streamXml = readPart(written.buffer(), 'xl/worksheets/sheet1.xml');
+
+        if (workbook.SheetNames.length === 1
+            && values === '[["Name","Team","Id"],["Ann","Red",1],["","Blue",2],["Green (archived)","Teal",3],["Total","Both",6],["Bo","Gray",4]]'
+            && sheet['!merges']?.length === 1 && sheet['!merges'][0].e.r === 2 && sheet['B3'].l?.Target === 'https://example.com/blue'
+            && sheet['!cols']?.[2]?.hidden && !sheet['!cols']?.[1]?.hidden && sheet['!rows']?.[3]?.hidden && !sheet['!rows']?.[4]?.hidden
+            && streamXml.includes('<col min="2" max="2" width="10" customWidth="1" hidden="1"/>')
+            && streamXml.includes('<row r="3" ht="15" customHeight="1" hidden="1">') && !streamXml.includes('Bo') && !streamXml.includes('>e<')) {
+            console.log('✅ Hidden and excluded content successful!');
+        } else {
+            console.log('❌ Hidden and excluded content produced unexpected sheets:', values, sheet['!merges'], streamXml.substring(0, 300));
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Hidden and excluded content failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 23: Conditional formatting
+    console.log('\n23. Testing conditional formatting...');
+    try {
+        const cfHtml = `
+            <table data-xlsx-cf="expression '$B2>$C2' bold">
+                <colgroup><col><col data-xlsx-cf="cellIs > 100 fill:#C6EFCE color:#006100; dataBar"><col data-xlsx-cf="colorScale #F8696B #63BE7B"></colgroup>
+                <thead><tr><th>Name</th><th>Sales</th><th>Target</th></tr></thead>
+                <tbody><tr><td>Ann</td><td>150</td><td>120</td></tr><tr><td>Bo</td><td>80</td><td>90</td></tr></tbody>
+            </table>
+        `;
+        const buffer = await convertToBuffer(cfHtml, { conditionalFormats: { Target: 'iconSet 3Arrows reverse', A: { type: 'cellIs', operator: 'equal', values: ['Ann'], style: { italic: true } } } });
+        const sheetXml = readPart(buffer, 'xl/worksheets/sheet1.xml');
+        const stylesXml = readPart(buffer, 'xl/styles.xml');
+
+        const written = collectOutput();
+        const processor = createStreamProcessor(undefined, { output: written.output, conditionalFormats: { Sales: 'cellIs between 1 10 fill:red' } });
+        processor.writeHeader('<table><col><col data-xlsx-cf="dataBar #FF0000"><tr><th>Name</th><th>Sales</th></tr></table>');
+        processor.writeRow('<tr><td>Ann</td><td>5</td></tr>');
+        processor.writeRow('<tr><td>Bo</td><td>12</td></tr>');
+        await processor.finalize();
+        const streamBuffer = written.buffer();
+        const streamXml = readPart(streamBuffer, 'xl/worksheets/sheet1.xml');
+
+        if (sheetXml.includes('<conditionalFormatting sqref="A2:C3"><cfRule type="expression" dxfId="0" priority="1"><formula>$B2&gt;$C2</formula></cfRule>')
+            && sheetXml.includes('<conditionalFormatting sqref="B2:B3"><cfRule type="cellIs" dxfId="1" priority="2" operator="greaterThan"><formula>100</formula></cfRule>')
+            && sheetXml.includes('<cfRule type="colorScale" priority="4"><colorScale><cfvo type="min"/><cfvo type="max"/><color rgb="FFF8696B"/><color rgb="FF63BE7B"/>')
+            && sheetXml.includes('<conditionalFormatting sqref="C2:C3"><cfRule type="iconSet" priority="5"><iconSet iconSet="3Arrows" reverse="1">')
+            && sheetXml.includes('<conditionalFormatting sqref="A2:A3"><cfRule type="cellIs" dxfId="2" priority="6" operator="equal"><formula>&quot;Ann&quot;</formula>')
+            && stylesXml.includes('<dxfs count="3"><dxf><font><b/></font></dxf><dxf><font><color rgb="FF006100"/></font><fill><patternFill><bgColor rgb="FFC6EFCE"/></patternFill></fill></dxf>')
+            && streamXml.includes('<conditionalFormatting sqref="B2:B3"><cfRule type="dataBar" priority="1"><dataBar><cfvo type="min"/><cfvo type="max"/><color rgb="FFFF0000"/>')
+            && streamXml.includes('<cfRule type="cellIs" dxfId="0" priority="2" operator="between"><formula>1</formula><formula>10</formula>')
+            && readPart(streamBuffer, 'xl/styles.xml').includes('<dxfs count="1">')) {
+            console.log('✅ Conditional formatting successful!');
+        } else {
+            console.log('❌ Conditional formatting produced unexpected sheets:', sheetXml.substring(sheetXml.indexOf('</sheetData>')), streamXml.substring(streamXml.indexOf('</sheetData>')));
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Conditional formatting failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 24: Data validation from form controls
+    console.log('\n24. Testing data validation...');
+    try {
+        const formHtml = `
+            <table>
+                <tr><th>Status</th><th>Qty</th><th>Due</th><th>Code</th></tr>
+                <tr>
+                    <td><select><option>Open</option><option selected>Closed</option><option>On hold</option></select></td>
+                    <td><input type="number" min="1" max="10" value="3" required title="How many"></td>
+                    <td><input type="date" min="2024-01-01" value="2024-05-01"></td>
+                    <td data-xlsx-validate="textLength = 4" data-xlsx-error="Four characters" data-xlsx-error-style="warning">ABCD</td>
+                </tr>
+                <tr>
+                    <td><select><option>Open</option><option>Closed</option><option>On hold</option></select></td>
+                    <td><input type="number" min="1" max="10" value="5" required title="How many"></td>
+                    <td></td><td></td>
+                </tr>
+            </table>
+        `;
+        const buffer = await convertToBuffer(formHtml);
+        const values = JSON.stringify(XLSX.utils.sheet_to_json(readFirstSheet(buffer), { header: 1, defval: '' }));
+        const sheetXml = readPart(buffer, 'xl/worksheets/sheet1.xml');
+
+        const rowsBuffer = await convertRows({
+            columns: [{ header: 'Answer', key: 'answer', validation: { type: 'list', values: ['Yes', 'No'], prompt: { title: 'Answer', message: 'Yes or no' } } }],
+            rows: [{ answer: 'Yes' }, { answer: 'No' }]
+        }) as Buffer;
+        const rowsXml = readPart(rowsBuffer, 'xl/worksheets/sheet1.xml');
+
+        if (values === '[["Status","Qty","Due","Code"],["Closed",3,45413,"ABCD"],["Open",5,"",""]]'
+            && sheetXml.includes('<dataValidation type="list" allowBlank="1" showErrorMessage="1" error="Choose a value from the list" sqref="A2:A3"><formula1>&quot;Open,Closed,On hold&quot;</formula1></dataValidation>')
+            && sheetXml.includes('<dataValidation type="whole" showInputMessage="1" showErrorMessage="1" error="Enter a whole number between 1 and 10" prompt="How many" sqref="B2:B3"><formula1>1</formula1><formula2>10</formula2>')
+            && sheetXml.includes('operator="greaterThanOrEqual" allowBlank="1" showErrorMessage="1" error="Enter a date greater than or equal to 2024-01-01" sqref="C2"><formula1>DATE(2024,1,1)</formula1>')
+            && sheetXml.includes('<dataValidation type="textLength" errorStyle="warning" operator="equal" allowBlank="1" showErrorMessage="1" error="Four characters" sqref="D2"><formula1>4</formula1>')
+            && sheetXml.indexOf('</dataValidations>') < sheetXml.indexOf('<ignoredErrors')
+            && rowsXml.includes('promptTitle="Answer" prompt="Yes or no" sqref="A2:A3"><formula1>&quot;Yes,No&quot;</formula1>')) {
+            console.log('✅ Data validation successful!');
+        } else {
+            console.log('❌ Data validation produced unexpected sheets:', values, sheetXml.substring(sheetXml.indexOf('</sheetData>')), rowsXml.substring(rowsXml.indexOf('</sheetData>')));
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Data validation failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 25: Cell notes from title, abbr and data-xlsx-comment
+    console.log('\n25. Testing cell notes...');
+    try {
+        const notesHtml = `
+            <table>
+                <tr><th colspan="2" title="Fiscal year">Revenue</th><th>Margin</th></tr>
+                <tr>
+                    <td data-xlsx-comment="Audited" data-xlsx-comment-author="Finance">120</td>
+                    <td>80 <abbr title="Estimated">est.</abbr></td>
+                    <td>12%</td>
+                </tr>
+            </table>
+        `;
+        const buffer = await convertToBuffer(notesHtml, { comments: { author: 'Reports', width: 200, height: 100 } });
+        const sheet = readFirstSheet(buffer);
+        const vml = readPart(buffer, 'xl/drawings/vmlDrawing1.vml');
+        const contentTypes = readPart(buffer, '[Content_Types].xml');
+        const withoutNotes = await convertToBuffer(notesHtml, { comments: false });
+
+        const written = collectOutput();
+        const processor = createStreamProcessor(undefined, { output: written.output });
+        processor.writeHeader('<table><tr><th>Name</th><th title="Net of tax">Sales</th></tr></table>');
+        processor.writeRow('<tr><td title="Team lead">Ann</td><td>5</td></tr>');
+        await processor.finalize();
+        const streamSheet = readFirstSheet(written.buffer());
+
+        const note = (worksheet: XLSX.WorkSheet, address: string) => (worksheet[address]?.c || []).map((c: any) => `${c.a || ''}|${c.t}`).join(',');
+        if (note(sheet, 'A1') === 'Reports|Fiscal year'
+            && !sheet['B1']?.c
+            && note(sheet, 'A2') === 'Finance|Audited'
+            && note(sheet, 'B2') === 'Reports|est.: Estimated'
+            && !sheet['C2']?.c
+            && vml.includes('width:150pt;height:75pt')
+            && contentTypes.includes('/xl/comments1.xml')
+            && readPart(withoutNotes, 'xl/comments1.xml') === ''
+            && streamSheet['B1']?.c?.[0]?.t === 'Net of tax'
+            && streamSheet['A2']?.c?.[0]?.t === 'Team lead') {
+            console.log('✅ Cell notes successful!');
+        } else {
+            console.log('❌ Cell notes produced unexpected sheets:', note(sheet, 'A1'), note(sheet, 'A2'), note(sheet, 'B2'), note(streamSheet, 'B1'), note(streamSheet, 'A2'));
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Cell notes failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 26: Images from data URIs and local files
+    console.log('\n26. Testing images...');
+    const imageRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'test-images-'));
+    try {
+        const pixel = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+        const imageDir = path.join(imageRoot, 'base');
+        fs.mkdirSync(path.join(imageDir, 'folder.png'), { recursive: true });
+        fs.writeFileSync(path.join(imageDir, 'icon.png'), Buffer.from(pixel, 'base64'));
+        fs.writeFileSync(path.join(imageRoot, 'secret.png'), Buffer.from(pixel, 'base64'));
+        fs.symlinkSync(path.join(imageRoot, 'secret.png'), path.join(imageDir, 'link.png'));
+        fs.writeFileSync(path.join(imageDir, 'huge.png'), Buffer.from(pixel, 'base64'));
+        fs.truncateSync(path.join(imageDir, 'huge.png'), 11 * 1024 * 1024);
+        const imageHtml = `
+            <table>
+                <tr><th>Product</th><th>Photo</th><th>Status</th></tr>
+                <tr><td>Lamp</td><td><img src="data:image/png;base64,${pixel}" width="120" height="90" alt="Lamp photo"></td><td><img src="icon.png" height="16" alt="OK"></td></tr>
+                <tr><td>Desk</td><td><img src="https://example.com/desk.png" alt="Desk photo"></td><td><img src="icon.png" height="16" alt="OK"></td></tr>
+            </table>
+        `;
+        const buffer = await convertToBuffer(imageHtml, { images: { baseDir: imageDir } });
+        const sheet = XLSX.read(buffer, { type: 'buffer', cellStyles: true }).Sheets['Sheet1'];
+        const drawing = readPart(buffer, 'xl/drawings/drawing1.xml');
+        const sheetXml = readPart(buffer, 'xl/worksheets/sheet1.xml');
+        const csv = (await convertToBuffer(imageHtml, { images: { baseDir: imageDir }, outputFormat: 'csv' })).toString('utf8');
+
+        const written = collectOutput();
+        const processor = createStreamProcessor(undefined, { output: written.output, images: { baseDir: imageDir } });
+        processor.writeHeader('<table><tr><th>Status</th></tr></table>');
+        processor.writeRow('<tr><td><img src="icon.png" width="40" height="40" alt="OK"></td></tr>');
+        await processor.finalize();
+        const streamBuffer = written.buffer();
+
+        // Files outside baseDir, non-regular and oversized files, and local files without a baseDir are never read
+        const forbidden = [path.join(imageRoot, 'secret.png'), '../secret.png', pathToFileURL(path.join(imageRoot, 'secret.png')).href, 'link.png', 'folder.png', 'huge.png']
+            .map(src => `<tr><td><img src="${src}" alt="Blocked"></td></tr>`).join('');
+        const blocked = await convertToBuffer(`<table>${forbidden}</table>`, { images: { baseDir: imageDir } });
+        const withoutBaseDir = await convertToBuffer(imageHtml);
+
+        if (drawing.split('<xdr:oneCellAnchor>').length === 4
+            && drawing.includes('<xdr:col>1</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>1</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:from><xdr:ext cx="1143000" cy="857250"/>')
+            && drawing.includes('descr="Lamp photo"')
+            && readPart(buffer, 'xl/media/image1.png') !== '' && readPart(buffer, 'xl/media/image2.png') === ''
+            && sheetXml.includes('<drawing r:id="')
+            && sheet['!cols']?.[1]?.wpx === 120 && sheet['!rows']?.[1]?.hpt === 67.5
+            && !sheet['B3']?.v
+            && csv.split('\n')[1] === 'Lamp,Lamp photo,OK'
+            && readPart(streamBuffer, 'xl/drawings/drawing1.xml').includes('<xdr:ext cx="381000" cy="381000"/>')
+            && readPart(streamBuffer, 'xl/worksheets/sheet1.xml').includes('<row r="2" ht="30" customHeight="1">')
+            && readPart(streamBuffer, '[Content_Types].xml').includes('<Default Extension="png" ContentType="image/png"/>')
+            && readPart(blocked, 'xl/drawings/drawing1.xml') === '' && readPart(blocked, 'xl/media/image1.png') === ''
+            && readPart(withoutBaseDir, 'xl/drawings/drawing1.xml').split('<xdr:oneCellAnchor>').length === 2) {
+            console.log('✅ Images successful!');
+        } else {
+            console.log('❌ Images produced unexpected sheets:', drawing.substring(0, 600), sheet['!cols'], sheet['!rows'], csv);
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Images failed:', (error as Error).message);
+        return;
+    } finally {
+        fs.rmSync(imageRoot, { recursive: true, force: true });
+    }
+
+    // Test 27: Row and column outlines
+    console.log('\n27. Testing outlines...');
+    try {
+        const treeHtml = `
+            <table>
+                <colgroup><col><col data-xlsx-level="1"><col data-xlsx-level="1"></colgroup>
+                <tr><th>Place</th><th>Q1</th><th>Q2</th></tr>
+                <tr aria-level="1"><td>Europe</td><td>10</td><td>12</td></tr>
+                <tr aria-level="2"><td>France</td><td>6</td><td>7</td></tr>
+                <tr data-xlsx-level="2"><td>Paris</td><td>4</td><td>5</td></tr>
+                <tr aria-level="2"><td>Spain</td><td>4</td><td>5</td></tr>
+                <tr aria-level="1"><td>Asia</td><td>8</td><td>9</td></tr>
+            </table>
+        `;
+        const buffer = await convertToBuffer(treeHtml, { outline: { collapsed: true } });
+        const sheetXml = readPart(buffer, 'xl/worksheets/sheet1.xml');
+        const belowXml = readPart(await convertToBuffer(treeHtml, { outline: { summaryRows: 'below' } }), 'xl/worksheets/sheet1.xml');
+
+        const written = collectOutput();
+        const processor = createStreamProcessor(undefined, { output: written.output, outline: { collapsed: true } });
+        processor.writeHeader('<table><col><col data-xlsx-level="1"><tr><th>Place</th><th>Q1</th></tr></table>');
+        processor.writeRow('<tr><td>Europe</td><td>10</td></tr>');
+        processor.writeRow('<tr data-xlsx-level="1"><td>France</td><td>6</td></tr>');
+        processor.writeRow('<tr><td>Asia</td><td>8</td></tr>');
+        await processor.finalize();
+        const streamXml = readPart(written.buffer(), 'xl/worksheets/sheet1.xml');
+
+        const row = (xml: string, r: number) => xml.match(new RegExp(`<row r="${r}"[^>]*>`))?.[0] || '';
+        const col = (xml: string, c: number) => xml.match(new RegExp(`<col min="${c}" [^>]*>`))?.[0] || '';
+        if (sheetXml.includes('<sheetPr><outlinePr summaryBelow="0" summaryRight="0"/></sheetPr>')
+            && sheetXml.includes('<sheetFormatPr defaultRowHeight="15" outlineLevelRow="2" outlineLevelCol="1"/>')
+            && row(sheetXml, 2).includes('collapsed="1"') && !row(sheetXml, 2).includes('outlineLevel')
+            && /collapsed="1" hidden="1".*outlineLevel="1"/.test(row(sheetXml, 3))
+            && /hidden="1".*outlineLevel="2"/.test(row(sheetXml, 4))
+            && row(sheetXml, 5).includes('outlineLevel="1"') && !row(sheetXml, 5).includes('collapsed')
+            && col(sheetXml, 1).includes('collapsed="1"') && /hidden="true" outlineLevel="1"/.test(col(sheetXml, 2))
+            && !/<col [^>]*\slevel=/.test(sheetXml)
+            && belowXml.includes('<outlinePr summaryBelow="1"') && !belowXml.includes('collapsed') && !row(belowXml, 3).includes('hidden')
+            && streamXml.includes('<sheetPr><outlinePr summaryBelow="0" summaryRight="0"/></sheetPr>')
+            && streamXml.includes('<sheetFormatPr defaultRowHeight="15" outlineLevelRow="1" outlineLevelCol="1"/>')
+            && row(streamXml, 2).includes('collapsed="1"') && /hidden="1" outlineLevel="1"/.test(row(streamXml, 3))
+            && !row(streamXml, 4).includes('collapsed') && /hidden="1" outlineLevel="1"/.test(col(streamXml, 2))) {
+            console.log('✅ Outlines successful!');
+        } else {
+            console.log('❌ Outlines produced unexpected sheets:', sheetXml.substring(0, 1500), streamXml.substring(0, 1000));
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Outlines failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 28: Page setup, print titles and page breaks
+    console.log('\n28. Testing page setup...');
+    try {
+        const reportHtml = `
+            <table>
+                <thead><tr><th>Account</th><th>Amount</th></tr></thead>
+                <tbody>
+                    <tr><td>Rent</td><td>1200</td></tr>
+                    <tr style="page-break-before: always"><td>Salaries</td><td>5400</td></tr>
+                </tbody>
+            </table>
+        `;
+        const page = {
+            orientation: 'landscape' as const,
+            paperSize: 'a4' as const,
+            margins: { left: 0.5, right: 0.5 },
+            fitToWidth: true,
+            centerHorizontally: true,
+            footer: { left: 'Q1 & Q2', right: 'Page {page} of {pages}' }
+        };
+        const buffer = await convertToBuffer(reportHtml, { page });
+        const sheetXml = readPart(buffer, 'xl/worksheets/sheet1.xml');
+        const workbookXml = readPart(buffer, 'xl/workbook.xml');
+        const breaksOnlyXml = readPart(await convertToBuffer(reportHtml), 'xl/worksheets/sheet1.xml');
+
+        const written = collectOutput();
+        const processor = createStreamProcessor(undefined, { output: written.output, page: { scale: 80, printTitles: false } });
+        processor.writeHeader('<table><thead><tr><th>Account</th></tr></thead></table>');
+        processor.writeRow('<tr><td>Rent</td></tr>');
+        processor.writeRow('<tr style="break-before: page"><td>Salaries</td></tr>');
+        await processor.finalize();
+        const streamBuffer = written.buffer();
+        const streamXml = readPart(streamBuffer, 'xl/worksheets/sheet1.xml');
+
+        if (sheetXml.includes('<pageSetUpPr fitToPage="1"/></sheetPr>')
+            && /<printOptions horizontalCentered="1"\/><pageMargins left="0.5" right="0.5" top="0.75" bottom="0.75" header="0.3" footer="0.3"\/>/.test(sheetXml)
+            && sheetXml.includes('<pageSetup paperSize="9" fitToWidth="1" fitToHeight="0" orientation="landscape"/>')
+            && sheetXml.includes('<oddFooter>&amp;LQ1 &amp;&amp; Q2&amp;RPage &amp;P of &amp;N</oddFooter>')
+            && sheetXml.includes('<rowBreaks count="1" manualBreakCount="1"><brk id="2" max="16383" man="1"/></rowBreaks>')
+            && workbookXml.includes('<definedName name="_xlnm.Print_Titles" localSheetId="0">&apos;Sheet1&apos;!$1:$1</definedName>')
+            && breaksOnlyXml.includes('<brk id="2"') && !breaksOnlyXml.includes('<pageSetup')
+            && streamXml.includes('<pageSetup scale="80"/>') && !streamXml.includes('pageSetUpPr')
+            && streamXml.includes('<rowBreaks count="1" manualBreakCount="1"><brk id="2" max="16383" man="1"/></rowBreaks>')
+            && !readPart(streamBuffer, 'xl/workbook.xml').includes('Print_Titles')) {
+            console.log('✅ Page setup successful!');
+        } else {
+            console.log('❌ Page setup produced unexpected sheets:', sheetXml.substring(sheetXml.indexOf('</sheetData>')), workbookXml, streamXml.substring(streamXml.indexOf('</sheetData>')));
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Page setup failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 29: Document properties from the HTML head and the properties option
+    console.log('\n29. Testing document properties...');
+    try {
+        const documentHtml = '<html><head><title>Q1 Ledger</title><meta name="author" content="Ana">'
+            + '<meta name="description" content="General ledger"><meta name="keywords" content="finance, ledger"></head>'
+            + '<body><table><tr><th>Account</th></tr><tr><td>Rent</td></tr></table></body></html>';
+        const created = new Date('2024-03-01T09:30:00Z');
+        const properties = { title: 'Ledger', company: 'Acme', created, custom: { Project: 'Close', Year: 2024, Final: true } };
+        const workbook = XLSX.read(await convertToBuffer(documentHtml, { properties }), { type: 'buffer' });
+
+        const written = collectOutput();
+        await pipeline(Readable.from([documentHtml]), createConvertStream({ properties: { custom: { Project: 'Close' } } }), written.output);
+        const streamed = XLSX.read(written.buffer(), { type: 'buffer' });
+        const rows = XLSX.read(await convertRows({ columns: [{ header: 'Account', key: 'account' }], rows: [{ account: 'Rent' }] }, undefined,
+            { properties: { author: 'Bo', keywords: ['a', 'b'] } }) as Buffer, { type: 'buffer' });
+        const custom = (book: XLSX.WorkBook): { [name: string]: unknown } => (book.Custprops || {}) as { [name: string]: unknown };
+
+        if (workbook.Props?.Title === 'Ledger' && workbook.Props?.Author === 'Ana' && workbook.Props?.Comments === 'General ledger'
+            && workbook.Props?.Keywords === 'finance, ledger' && workbook.Props?.Company === 'Acme'
+            && workbook.Props?.CreatedDate?.getTime() === created.getTime()
+            && custom(workbook).Project === 'Close' && custom(workbook).Year === 2024 && custom(workbook).Final === true
+            && streamed.Props?.Title === 'Q1 Ledger' && streamed.Props?.Author === 'Ana' && custom(streamed).Project === 'Close'
+            && streamed.Props?.CreatedDate instanceof Date
+            && rows.Props?.Author === 'Bo' && rows.Props?.Keywords === 'a, b') {
+            console.log('✅ Document properties successful!');
+        } else {
+            console.log('❌ Document properties unexpected:', workbook.Props, workbook.Custprops, streamed.Props, streamed.Custprops, rows.Props);
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Document properties failed:', (error as Error).message);
+        return;
+    }
+
+    // Test 30: Sheet protection with unlocked input cells
+    console.log('\n30. Testing sheet protection...');
+    try {
+        const templateHtml = `
+            <table>
+                <tr><th>Item</th><th>Quantity</th><th>Notes</th></tr>
+                <tr><td>Pens</td><td><input type="number" value="3"></td><td data-xlsx-locked="false"></td></tr>
+                <tr contenteditable><td data-xlsx-locked="true">Ink</td><td>2</td><td></td></tr>
+                <tr><td>Paper</td><td><input type="number" value="5" readonly></td><td></td></tr>
+            </table>
+        `;
+        const buffer = await convertToBuffer(templateHtml, { protection: { password: 'secret', allow: ['selectUnlockedCells', 'sort'] } });
+        const sheetXml = readPart(buffer, 'xl/worksheets/sheet1.xml');
+        const formatsOf = (output: Buffer) => readPart(output, 'xl/styles.xml').match(/<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1].match(/<xf\b[^>]*?(?:\/>|>[\s\S]*?<\/xf>)/g) || [];
+        const cellFormats = formatsOf(buffer);
+        const unlocked = (xml: string, formats: string[], address: string) =>
+            formats[parseInt(xml.match(new RegExp(`<c r="${address}"[^>]*?\\ss="(\\d+)"`))?.[1] || '0')]?.includes('<protection locked="0"/>');
+
+        const written = collectOutput();
+        const processor = createStreamProcessor(undefined, { output: written.output, protection: true });
+        processor.writeHeader('<table><tr><th>Item</th><th>Quantity</th></tr></table>');
+        processor.writeRow('<tr><td>Pens</td><td contenteditable="true">3</td></tr>');
+        await processor.finalize();
+        const streamBuffer = written.buffer();
+        const streamXml = readPart(streamBuffer, 'xl/worksheets/sheet1.xml');
+        const streamFormats = formatsOf(streamBuffer);
+
+        if (sheetXml.includes('<sheetProtection password="DAA7" sheet="1" objects="1" scenarios="1" selectLockedCells="1" sort="0"/>')
+            && unlocked(sheetXml, cellFormats, 'B2') && unlocked(sheetXml, cellFormats, 'C2') && unlocked(sheetXml, cellFormats, 'B3')
+            && !unlocked(sheetXml, cellFormats, 'A2') && !unlocked(sheetXml, cellFormats, 'A3') && !unlocked(sheetXml, cellFormats, 'B4')
+            && streamXml.includes('</sheetData><sheetProtection sheet="1" objects="1" scenarios="1"/>')
+            && unlocked(streamXml, streamFormats, 'B2') && !unlocked(streamXml, streamFormats, 'A2')) {
+            console.log('✅ Sheet protection successful!');
+        } else {
+            console.log('❌ Sheet protection produced unexpected sheets:', sheetXml, cellFormats, streamXml);
+            return;
+        }
+    } catch (error) {
+        console.log('❌ Sheet protection failed:', (error as Error).message);
+        return;
+    }
+
     console.log('\n🎉 All tests passed! The package supports all import styles correctly.');
     console.log('\n📋 Import styles supported:');
     console.log('   ✅ import TableToXlsx from "@nodewave/table-to-xlsx"');
@@ -107,5 +1100,27 @@ async function testPackage() {
     console.log('   ✅ import { convert, convertToFile, convertToBuffer } from "@nodewave/table-to-xlsx"');
 }
 
+function readFirstSheet(buffer: Buffer): XLSX.WorkSheet {
+    const workbook = XLSX.read(buffer, { type: 'buffer', cellNF: true });
+    return workbook.Sheets[workbook.SheetNames[0]];
+}
+
+// Writable keeping what is written to it, for the stream tests
+function collectOutput(): { output: Writable, buffer: () => Buffer } {
+    const chunks: Buffer[] = [];
+    const output = new Writable({
+        write(chunk, _encoding, callback) {
+            chunks.push(chunk);
+            callback();
+        }
+    });
+    return { output, buffer: () => Buffer.concat(chunks) };
+}
+
+function readPart(buffer: Buffer, path: string): string {
+    const entry = (XLSX as any).CFB.find((XLSX as any).CFB.read(buffer, { type: 'buffer' }), `/${path}`);
+    return entry ? Buffer.from(entry.content).toString('utf8') : '';
+}
+
 // Run tests
 testPackage().catch(console.error);
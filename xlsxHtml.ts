@@ -0,0 +1,394 @@
+import * as XLSX from 'xlsx-js-style'
+import { XlsxPackage } from './xlsxPackage'
+import type { HtmlOptions } from './index'
+
+interface FontFormat {
+    bold?: boolean
+    italic?: boolean
+    underline?: boolean
+    strike?: boolean
+    size?: number
+    name?: string
+    color?: string
+}
+
+interface BorderFormat {
+    style: string
+    color?: string
+}
+
+// Link targets rendered as <a href>: web and mail links and places in the workbook; others (javascript:, data:, ...) are shown as text
+const SAFE_LINK = /^(?:https?:|mailto:|#)/i
+
+// One entry of styles.xml cellXfs, resolved against the font, fill and border tables
+interface CellFormat {
+    font?: FontFormat
+    fill?: string
+    borders: { top?: BorderFormat, right?: BorderFormat, bottom?: BorderFormat, left?: BorderFormat }
+    horizontal?: string
+    vertical?: string
+    wrapText?: boolean
+    indent?: number
+}
+
+// Excel border styles as CSS width and style; CSS keyword widths read back as the same Excel style
+const BORDER_CSS: { [style: string]: string } = {
+    thin: 'thin solid',
+    hair: 'thin solid',
+    medium: 'medium solid',
+    thick: 'thick solid',
+    dashed: 'thin dashed',
+    dashDot: 'thin dashed',
+    dashDotDot: 'thin dashed',
+    slantDashDot: 'thin dashed',
+    mediumDashed: 'medium dashed',
+    mediumDashDot: 'medium dashed',
+    dotted: 'thin dotted',
+    mediumDashDotDot: 'medium dotted',
+    double: 'medium double'
+}
+
+const HORIZONTAL_ALIGN: { [align: string]: string } = {
+    left: 'left', center: 'center', centerContinuous: 'center', right: 'right', justify: 'justify', distributed: 'justify'
+}
+
+const VERTICAL_ALIGN: { [align: string]: string } = {
+    top: 'top', center: 'middle', bottom: 'bottom', justify: 'middle', distributed: 'middle'
+}
+
+/**
+ * Render worksheets of an XLSX package as HTML tables, one <table> per sheet
+ * Styles are written as inline CSS that the HTML parser reads back into the same cell styles
+ */
+export function renderWorkbookHtml(buffer: Buffer, options: HtmlOptions = {}): string {
+    const workbook = XLSX.read(buffer, { type: 'buffer', cellNF: true, cellStyles: true, sheetStubs: true })
+    const xlsxPackage = XlsxPackage.fromBuffer(buffer)
+    const formats = readCellFormats(xlsxPackage.read('xl/styles.xml') || '')
+
+    let sheetIndexes = workbook.SheetNames.map((_, index) => index)
+    if (options.sheet !== undefined) {
+        const index = typeof options.sheet === 'number' ? options.sheet : workbook.SheetNames.indexOf(options.sheet)
+        if (!workbook.SheetNames[index]) {
+            throw new Error(`Worksheet ${JSON.stringify(options.sheet)} not found`)
+        }
+        sheetIndexes = [index]
+    }
+
+    const sharedStrings = elements(xlsxPackage.read('xl/sharedStrings.xml') || '', 'si').map(si => si.body)
+
+    return sheetIndexes.map(index => {
+        const name = workbook.SheetNames[index]
+        const sheetXml = xlsxPackage.read(xlsxPackage.worksheetPath(index)) || ''
+        const styleIds = readCellStyleIds(sheetXml)
+        const richText = readRichText(sheetXml, sharedStrings)
+        return renderSheet(workbook.Sheets[name], name, { styleIds, richText }, formats, options)
+    }).join('\n')
+}
+
+/**
+ * Cells of a worksheet as read from its XML part
+ * @param styleIds Style index of every styled cell
+ * @param richText Runs (<r> elements) of every rich text cell
+ */
+interface SheetParts {
+    styleIds: Map<string, number>
+    richText: Map<string, string>
+}
+
+function renderSheet(sheet: XLSX.WorkSheet, name: string, parts: SheetParts, formats: CellFormat[], options: HtmlOptions): string {
+    const html: string[] = [`<table data-sheet-name="${escapeHtml(name)}">`]
+    if (!sheet['!ref']) {
+        return `${html[0]}</table>`
+    }
+
+    const range = XLSX.utils.decode_range(sheet['!ref'])
+    const headerRows = options.headerRows || 0
+    const defaultFont = formats[0]?.font
+
+    // Merged areas: the top-left cell spans, the others are left out
+    const spans = new Map<string, { colspan: number, rowspan: number }>()
+    const covered = new Set<string>()
+    ;(sheet['!merges'] || []).forEach(merge => {
+        spans.set(XLSX.utils.encode_cell(merge.s), { colspan: merge.e.c - merge.s.c + 1, rowspan: merge.e.r - merge.s.r + 1 })
+        for (let r = merge.s.r; r <= merge.e.r; r++) {
+            for (let c = merge.s.c; c <= merge.e.c; c++) {
+                if (r !== merge.s.r || c !== merge.s.c) covered.add(XLSX.utils.encode_cell({ r, c }))
+            }
+        }
+    })
+
+    const columns = sheet['!cols'] || []
+    if (columns.some(column => column?.wpx)) {
+        const cols = []
+        for (let c = range.s.c; c <= range.e.c; c++) {
+            cols.push(columns[c]?.wpx ? `<col style="width: ${columns[c].wpx}px">` : '<col>')
+        }
+        html.push(`<colgroup>${cols.join('')}</colgroup>`)
+    }
+
+    for (let r = range.s.r; r <= range.e.r; r++) {
+        const isHeader = r - range.s.r < headerRows
+        if (r === range.s.r && isHeader) html.push('<thead>')
+        if (r - range.s.r === headerRows) html.push('<tbody>')
+
+        const cells: string[] = []
+        for (let c = range.s.c; c <= range.e.c; c++) {
+            const address = XLSX.utils.encode_cell({ r, c })
+            if (covered.has(address)) continue
+
+            const tag = isHeader ? 'th' : 'td'
+            const attributes: string[] = []
+            const span = spans.get(address)
+            if (span && span.colspan > 1) attributes.push(`colspan="${span.colspan}"`)
+            if (span && span.rowspan > 1) attributes.push(`rowspan="${span.rowspan}"`)
+
+            const cell: XLSX.CellObject | undefined = sheet[address]
+            if (cell && options.valueAttributes !== false) {
+                attributes.push(...valueAttributes(cell))
+            }
+
+            const styleId = parts.styleIds.get(address)
+            const format = styleId !== undefined ? formats[styleId] : undefined
+            const css = format ? formatCss(format, defaultFont) : ''
+            if (css) attributes.push(`style="${escapeHtml(css)}"`)
+
+            const content = cell ? cellContent(cell, parts.richText.get(address), format?.font || defaultFont) : ''
+            cells.push(`<${tag}${attributes.map(attribute => ` ${attribute}`).join('')}>${content}</${tag}>`)
+        }
+        html.push(`<tr>${cells.join('')}</tr>`)
+
+        if (isHeader && r - range.s.r === headerRows - 1) html.push('</thead>')
+    }
+    if (range.e.r - range.s.r >= headerRows) html.push('</tbody>')
+
+    html.push('</table>')
+    return html.join('\n')
+}
+
+/**
+ * data-xlsx-* attributes that restore the typed value, number format and formula when the HTML is parsed again
+ */
+function valueAttributes(cell: XLSX.CellObject): string[] {
+    const attributes: string[] = []
+    const format = typeof cell.z === 'string' && cell.z !== 'General' ? cell.z : undefined
+
+    if (cell.f) {
+        attributes.push(`data-xlsx-formula="${escapeHtml(cell.f)}"`)
+    }
+
+    if (cell.t === 'n' && typeof cell.v === 'number') {
+        if (format && XLSX.SSF.is_date(format)) {
+            attributes.push('data-xlsx-type="date"', `data-xlsx-value="${serialToIso(cell.v)}"`)
+        } else {
+            attributes.push('data-xlsx-type="number"', `data-xlsx-value="${cell.v}"`)
+        }
+    } else if (cell.t === 'b') {
+        attributes.push('data-xlsx-type="boolean"', `data-xlsx-value="${cell.v ? 'TRUE' : 'FALSE'}"`)
+    } else if (cell.t === 's' && /^\s*([-+($€£¥]|\d|true\b|false\b)/i.test(String(cell.v ?? ''))) {
+        // Text that would otherwise be inferred as a number, date or boolean
+        attributes.push('data-xlsx-type="string"')
+    }
+
+    if (format) {
+        attributes.push(`data-xlsx-format="${escapeHtml(format)}"`)
+    }
+
+    return attributes
+}
+
+/**
+ * Cell text as HTML, with rich text runs as <b>, <i>, <u>, <s>, <sup>, <sub> and colored <span>s
+ * SheetJS's own `h` markup is not used: it leaves the text of runs unescaped
+ */
+function cellContent(cell: XLSX.CellObject, runs: string | undefined, font: FontFormat = {}): string {
+    const content = cell.t === 's' && runs
+        ? runsHtml(runs, font)
+        : textHtml(cell.w ?? String(cell.v ?? ''))
+
+    const link = cell.l?.Target?.trim()
+    return link && SAFE_LINK.test(link) ? `<a href="${escapeHtml(link)}"${cell.l?.Tooltip ? ` title="${escapeHtml(cell.l.Tooltip)}"` : ''}>${content}</a>` : content
+}
+
+// Text runs as HTML; formatting the cell font already has is left to the cell's CSS
+function runsHtml(runs: string, font: FontFormat): string {
+    return elements(runs, 'r').map(run => {
+        const properties = section(run.body, 'rPr')
+        let html = textHtml(elements(run.body, 't').map(t => unescapeXml(t.body)).join(''))
+
+        const vertAlign = attribute(properties.match(/<vertAlign\b[^>]*>/)?.[0], 'val')
+        if (vertAlign === 'superscript') html = `<sup>${html}</sup>`
+        if (vertAlign === 'subscript') html = `<sub>${html}</sub>`
+        if (flag(properties, 'strike') && !font.strike) html = `<s>${html}</s>`
+        if (flag(properties, 'u') && !font.underline) html = `<u>${html}</u>`
+        if (flag(properties, 'i') && !font.italic) html = `<i>${html}</i>`
+        if (flag(properties, 'b') && !font.bold) html = `<b>${html}</b>`
+        const color = rgb(properties.match(/<color\b[^>]*>/)?.[0])
+        if (color && color !== font.color) html = `<span style="color: #${color}">${html}</span>`
+        return html
+    }).join('')
+}
+
+function textHtml(text: string): string {
+    return escapeHtml(text).replace(/\r?\n/g, '<br>')
+}
+
+/**
+ * Inline CSS of a cell format; fonts matching the workbook default and white fills are left out
+ */
+function formatCss(format: CellFormat, defaultFont: FontFormat = {}): string {
+    const css: string[] = []
+    const font = format.font || {}
+
+    if (format.fill && format.fill !== 'FFFFFF') css.push(`background-color: #${format.fill}`)
+    if (font.color) css.push(`color: #${font.color}`)
+    if (font.bold) css.push('font-weight: bold')
+    if (font.italic) css.push('font-style: italic')
+    if (font.size && font.size !== defaultFont.size) css.push(`font-size: ${font.size}pt`)
+    if (font.name && font.name !== defaultFont.name) css.push(`font-family: ${/[^\w-]/.test(font.name) ? `'${font.name.replace(/'/g, '')}'` : font.name}`)
+
+    const decorations = [font.underline && 'underline', font.strike && 'line-through'].filter(Boolean)
+    if (decorations.length > 0) css.push(`text-decoration: ${decorations.join(' ')}`)
+
+    if (format.horizontal && HORIZONTAL_ALIGN[format.horizontal]) css.push(`text-align: ${HORIZONTAL_ALIGN[format.horizontal]}`)
+    if (format.vertical && VERTICAL_ALIGN[format.vertical]) css.push(`vertical-align: ${VERTICAL_ALIGN[format.vertical]}`)
+    if (!format.wrapText) css.push('white-space: nowrap')
+    if (format.indent) css.push(`padding-left: ${format.indent * 10}px`)
+
+    // Sides without a border are written as none: the HTML parser defaults to thin borders
+    const sides = (['top', 'right', 'bottom', 'left'] as const).map(side => {
+        const border = format.borders[side]
+        return border && BORDER_CSS[border.style] ? `${BORDER_CSS[border.style]}${border.color ? ` #${border.color}` : ''}` : 'none'
+    })
+    if (sides.every(side => side === sides[0])) {
+        css.push(`border: ${sides[0]}`)
+    } else {
+        sides.forEach((side, index) => css.push(`border-${['top', 'right', 'bottom', 'left'][index]}: ${side}`))
+    }
+
+    return css.join('; ')
+}
+
+/**
+ * Cell formats (cellXfs) of styles.xml, indexed like the `s` attribute of cells
+ */
+function readCellFormats(stylesXml: string): CellFormat[] {
+    const fonts = elements(section(stylesXml, 'fonts'), 'font').map(({ body }): FontFormat => ({
+        bold: flag(body, 'b'),
+        italic: flag(body, 'i'),
+        underline: /<u\b(?![^>]*val="none")/.test(body),
+        strike: flag(body, 'strike'),
+        size: parseFloat(attribute(body.match(/<sz\b[^>]*>/)?.[0], 'val') || '') || undefined,
+        name: attribute(body.match(/<name\b[^>]*>/)?.[0], 'val'),
+        color: rgb(body.match(/<color\b[^>]*>/)?.[0])
+    }))
+
+    const fills = elements(section(stylesXml, 'fills'), 'fill').map(({ body }) => {
+        const pattern = body.match(/<patternFill\b[^>]*>/)?.[0]
+        return attribute(pattern, 'patternType') === 'solid' ? rgb(body.match(/<fgColor\b[^>]*>/)?.[0]) : undefined
+    })
+
+    const borders = elements(section(stylesXml, 'borders'), 'border').map(({ body }) => {
+        const sides: CellFormat['borders'] = {}
+        for (const side of ['top', 'right', 'bottom', 'left'] as const) {
+            // start/end are the names used by some writers for left/right
+            const name = side === 'left' ? '(?:left|start)' : side === 'right' ? '(?:right|end)' : side
+            const match = body.match(new RegExp(`<${name}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/${name}>)`))
+            const style = match && attribute(match[1], 'style')
+            if (style && style !== 'none') {
+                sides[side] = { style, color: rgb(match[2]?.match(/<color\b[^>]*>/)?.[0]) }
+            }
+        }
+        return sides
+    })
+
+    return elements(section(stylesXml, 'cellXfs'), 'xf').map(({ tag, body }) => {
+        const alignment = body.match(/<alignment\b[^>]*>/)?.[0]
+        const index = (name: string) => parseInt(attribute(tag, name) || '0', 10)
+
+        return {
+            font: fonts[index('fontId')],
+            fill: fills[index('fillId')],
+            borders: borders[index('borderId')] || {},
+            horizontal: attribute(alignment, 'horizontal'),
+            vertical: attribute(alignment, 'vertical'),
+            wrapText: ['1', 'true'].includes(attribute(alignment, 'wrapText') || ''),
+            indent: parseInt(attribute(alignment, 'indent') || '0', 10) || undefined
+        }
+    })
+}
+
+/**
+ * Runs of the rich text cells of a worksheet, from their inline string or shared string
+ */
+function readRichText(sheetXml: string, sharedStrings: string[]): Map<string, string> {
+    const richText = new Map<string, string>()
+    for (const cell of elements(sheetXml, 'c')) {
+        const type = attribute(cell.tag, 't')
+        const text = type === 's' ? sharedStrings[parseInt(section(cell.body, 'v'), 10)]
+            : type === 'inlineStr' ? section(cell.body, 'is') : undefined
+        const address = attribute(cell.tag, 'r')
+        if (address && text && /<r\b/.test(text)) richText.set(address, text)
+    }
+    return richText
+}
+
+/**
+ * Style index (`s` attribute) of every styled cell of a worksheet
+ */
+function readCellStyleIds(sheetXml: string): Map<string, number> {
+    const styleIds = new Map<string, number>()
+    for (const match of sheetXml.matchAll(/<c\b([^>]*)>/g)) {
+        const address = attribute(match[1], 'r')
+        const style = attribute(match[1], 's')
+        if (address && style) styleIds.set(address, parseInt(style, 10))
+    }
+    return styleIds
+}
+
+function section(xml: string, name: string): string {
+    return xml.match(new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)<\\/${name}>`))?.[1] || ''
+}
+
+function elements(xml: string, name: string): { tag: string, body: string }[] {
+    return Array.from(xml.matchAll(new RegExp(`<${name}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/${name}>)`, 'g')))
+        .map(match => ({ tag: match[1], body: match[2] || '' }))
+}
+
+function attribute(tag: string | undefined, name: string): string | undefined {
+    return tag?.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1]
+}
+
+function flag(body: string, name: string): boolean {
+    const tag = body.match(new RegExp(`<${name}(?:\\s[^>]*)?\\/?>`))?.[0]
+    return !!tag && !/val="(0|false)"/.test(tag)
+}
+
+// RRGGBB of an ARGB or RGB color; theme and indexed colors are not resolved
+function rgb(colorTag: string | undefined): string | undefined {
+    const value = attribute(colorTag, 'rgb')
+    return value && /^[0-9A-Fa-f]{6}([0-9A-Fa-f]{2})?$/.test(value) ? value.slice(-6).toUpperCase() : undefined
+}
+
+function serialToIso(serial: number): string {
+    const iso = new Date(Math.round(serial * 86400000) + Date.UTC(1899, 11, 30)).toISOString()
+    return serial % 1 === 0 ? iso.substring(0, 10) : iso.substring(0, 19)
+}
+
+function unescapeXml(text: string): string {
+    return text
+        .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&')
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
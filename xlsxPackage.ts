@@ -0,0 +1,196 @@
+import * as XLSX from 'xlsx-js-style'
+import type { RichTextRun } from './index'
+
+const CFB = (XLSX as any).CFB
+
+/**
+ * Read/write access to the parts of a generated XLSX package
+ * Used for the features xlsx-js-style cannot write itself (inline rich text, ...)
+ */
+export class XlsxPackage {
+    private constructor(private readonly container: any) { }
+
+    static fromBuffer(buffer: Buffer): XlsxPackage {
+        return new XlsxPackage(CFB.read(buffer, { type: 'buffer' }))
+    }
+
+    /**
+     * Read a part as text (path relative to the package root, e.g. "xl/styles.xml")
+     */
+    read(path: string): string | undefined {
+        const entry = CFB.find(this.container, `/${path}`)
+        return entry ? Buffer.from(entry.content).toString('utf8') : undefined
+    }
+
+    /**
+     * Create or replace a part
+     */
+    write(path: string, content: string | Buffer) {
+        CFB.utils.cfb_add(this.container, `/${path}`, typeof content === 'string' ? Buffer.from(content, 'utf8') : content)
+    }
+
+    /**
+     * Path of the worksheet part for a zero-based sheet index, resolved through the workbook relationships
+     */
+    worksheetPath(sheetIndex: number): string {
+        const workbook = this.read('xl/workbook.xml') || ''
+        const relationships = this.read('xl/_rels/workbook.xml.rels') || ''
+
+        const sheets = Array.from(workbook.matchAll(/<sheet\b[^>]*\br:id="([^"]+)"/g))
+        const relationshipId = sheets[sheetIndex]?.[1]
+        const relationship = Array.from(relationships.matchAll(/<Relationship\b[^>]*>/g))
+            .map(match => match[0])
+            .find(tag => tag.includes(`Id="${relationshipId}"`))
+        const target = relationship?.match(/Target="([^"]+)"/)?.[1]
+
+        if (!target) {
+            throw new Error(`Worksheet ${sheetIndex + 1} not found in package`)
+        }
+
+        return target.startsWith('/') ? target.substring(1) : `xl/${target}`
+    }
+
+    /**
+     * Add a relationship from a part, creating its .rels part when needed
+     * @param partPath Source part (e.g. "xl/worksheets/sheet1.xml")
+     * @param type Relationship type URI
+     * @param target Target, relative to the source part's folder
+     * @returns Relationship id
+     */
+    addRelationship(partPath: string, type: string, target: string): string {
+        const relsPath = partPath.replace(/([^/]+)$/, '_rels/$1.rels')
+        const relationships = this.read(relsPath) ||
+            '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>'
+
+        const ids = Array.from(relationships.matchAll(/\bId="rId(\d+)"/g)).map(match => parseInt(match[1]))
+        const id = `rId${Math.max(0, ...ids) + 1}`
+        this.write(relsPath, relationships.replace('</Relationships>', `<Relationship Id="${id}" Type="${type}" Target="${escapeXml(target)}"/></Relationships>`))
+        return id
+    }
+
+    /**
+     * Register the content type of a part, or of every part with an extension
+     * @param name Part path (e.g. "xl/comments1.xml") or extension (e.g. "vml")
+     */
+    addContentType(name: string, contentType: string) {
+        const types = this.read('[Content_Types].xml') || ''
+        const entry = name.includes('/')
+            ? `<Override PartName="/${name}" ContentType="${contentType}"/>`
+            : `<Default Extension="${name}" ContentType="${contentType}"/>`
+        const exists = name.includes('/') ? types.includes(`PartName="/${name}"`) : types.includes(`Extension="${name}"`)
+        if (!exists) {
+            this.write('[Content_Types].xml', types.replace('</Types>', `${entry}</Types>`))
+        }
+    }
+
+    toBuffer(): Buffer {
+        return CFB.write(this.container, { fileType: 'zip', type: 'buffer' })
+    }
+}
+
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+}
+
+/**
+ * Rewrite every <c> element of a worksheet whose address has a replacement
+ * @param sheetXml Worksheet XML
+ * @param replace Returns the new element for an address, or undefined to keep the cell
+ */
+export function replaceCells(sheetXml: string, replace: (address: string, attributes: string, body: string) => string | undefined): string {
+    return sheetXml.replace(/<c r="([A-Z]+\d+)"([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g, (element, address: string, attributes: string, body = '') => {
+        return replace(address, attributes, body) ?? element
+    })
+}
+
+/**
+ * Serialize rich text runs as the body of an inline string (<is>)
+ * Runs without formatting use the cell font; formatted runs restate it, since
+ * run properties replace the cell font instead of adding to it
+ * @param runs Text runs
+ * @param cellFont xlsx-js-style font of the cell
+ */
+export function richTextXml(runs: RichTextRun[], cellFont: any = {}): string {
+    return runs.map(run => {
+        const text = `<t xml:space="preserve">${escapeXml(run.text)}</t>`
+        const formatted = run.bold || run.italic || run.underline || run.strike || run.vertAlign || run.color
+        if (!formatted) {
+            return `<r>${text}</r>`
+        }
+
+        const properties: string[] = []
+        if (run.bold ?? cellFont.bold) properties.push('<b/>')
+        if (run.italic ?? cellFont.italic) properties.push('<i/>')
+        if (run.strike ?? cellFont.strike) properties.push('<strike/>')
+        if (run.underline ?? cellFont.underline) properties.push('<u/>')
+        if (run.vertAlign) properties.push(`<vertAlign val="${run.vertAlign}"/>`)
+        properties.push(`<sz val="${cellFont.sz || 11}"/>`)
+        const color = run.color || cellFont.color?.rgb
+        if (color) properties.push(`<color rgb="${color.length === 6 ? `FF${color}` : color}"/>`)
+        properties.push(`<rFont val="${escapeXml(cellFont.name || 'Calibri')}"/>`)
+
+        return `<r><rPr>${properties.join('')}</rPr>${text}</r>`
+    }).join('')
+}
+
+/**
+ * <sheetView> whose top rows and left columns are frozen
+ * @param rows Frozen rows above the pane
+ * @param columns Frozen columns left of the pane
+ */
+export function frozenSheetViewXml(rows: number, columns: number): string {
+    const topLeftCell = XLSX.utils.encode_cell({ r: rows, c: columns })
+    const activePane = rows > 0 && columns > 0 ? 'bottomRight' : rows > 0 ? 'bottomLeft' : 'topRight'
+    const split = `${columns > 0 ? ` xSplit="${columns}"` : ''}${rows > 0 ? ` ySplit="${rows}"` : ''}`
+
+    return `<sheetView workbookViewId="0"><pane${split} topLeftCell="${topLeftCell}" activePane="${activePane}" state="frozen"/>` +
+        `<selection pane="${activePane}" activeCell="${topLeftCell}" sqref="${topLeftCell}"/></sheetView>`
+}
+
+/**
+ * Summary rows (or columns) of outline groups, whose button collapses the group: the entry before
+ * a deeper one, or with `before` false the entry after one
+ * @param levels Outline level of each row or column
+ */
+export function outlineSummaries(levels: number[], before: boolean): number[] {
+    return levels.flatMap((level, i) => (before ? (levels[i + 1] ?? 0) > level : i > 0 && levels[i - 1] > level) ? [i] : [])
+}
+
+// Child elements of <worksheet> in the order the schema requires
+const WORKSHEET_ELEMENTS = [
+    'sheetPr', 'dimension', 'sheetViews', 'sheetFormatPr', 'cols', 'sheetData', 'sheetCalcPr', 'sheetProtection',
+    'protectedRanges', 'scenarios', 'autoFilter', 'sortState', 'dataConsolidate', 'customSheetViews', 'mergeCells',
+    'phoneticPr', 'conditionalFormatting', 'dataValidations', 'hyperlinks', 'printOptions', 'pageMargins', 'pageSetup',
+    'headerFooter', 'rowBreaks', 'colBreaks', 'customProperties', 'cellWatches', 'ignoredErrors', 'smartTags', 'drawing',
+    'legacyDrawing', 'legacyDrawingHF', 'picture', 'oleObjects', 'controls', 'webPublishItems', 'tableParts', 'extLst'
+]
+
+/**
+ * Insert worksheet elements at their schema position: before the first element that has to follow them
+ * @param sheetXml Worksheet XML
+ * @param element Name of the inserted element (e.g. "conditionalFormatting")
+ * @param xml Serialized elements
+ */
+export function insertSheetElement(sheetXml: string, element: string, xml: string): string {
+    const following = WORKSHEET_ELEMENTS.slice(WORKSHEET_ELEMENTS.indexOf(element) + 1)
+    const match = sheetXml.match(new RegExp(`<(?:${following.join('|')})[\\s/>]|</worksheet>`))
+    const index = match?.index ?? sheetXml.length
+    return sheetXml.substring(0, index) + xml + sheetXml.substring(index)
+}
+
+/**
+ * Append child elements (outlinePr, pageSetUpPr) to the worksheet's <sheetPr>, adding it when missing
+ */
+export function appendSheetProperties(sheetXml: string, xml: string): string {
+    if (/<sheetPr\b[^>]*\/>/.test(sheetXml)) {
+        return sheetXml.replace(/<sheetPr\b([^>]*)\/>/, `<sheetPr$1>${xml}</sheetPr>`)
+    }
+    return /<\/sheetPr>/.test(sheetXml)
+        ? sheetXml.replace('</sheetPr>', `${xml}</sheetPr>`)
+        : insertSheetElement(sheetXml, 'sheetPr', `<sheetPr>${xml}</sheetPr>`)
+}
@@ -0,0 +1,854 @@
+import * as zlib from 'zlib'
+import { once } from 'events'
+import type { Writable } from 'stream'
+import * as XLSX from 'xlsx-js-style'
+import type { CellComment, CellImage, ConditionalFormatRule, ConditionalStyle, DataValidation, DocumentProperties, PageSetup, RichTextRun, SheetProtection } from './index'
+import { escapeXml, frozenSheetViewXml, outlineSummaries, richTextXml } from './xlsxPackage'
+import { conditionalFormatRanges, conditionalFormattingXml, dxfXml } from './conditionalFormat'
+import { dataValidationsXml } from './dataValidation'
+import { COMMENTS_CONTENT_TYPE, COMMENTS_RELATIONSHIP, DEFAULT_NOTE_SIZE, VML_CONTENT_TYPE, VML_RELATIONSHIP, commentsXml, vmlDrawingXml, type SheetNote } from './comments'
+import { DRAWING_CONTENT_TYPE, DRAWING_RELATIONSHIP, IMAGE_CONTENT_TYPES, MediaStore, drawingParts, type SheetImage } from './images'
+import {
+    APP_PROPERTIES_CONTENT_TYPE, APP_PROPERTIES_RELATIONSHIP, CORE_PROPERTIES_CONTENT_TYPE, CORE_PROPERTIES_RELATIONSHIP, CUSTOM_PROPERTIES_CONTENT_TYPE,
+    CUSTOM_PROPERTIES_RELATIONSHIP, appPropertiesXml, corePropertiesXml, customPropertiesXml
+} from './documentProperties'
+import { sheetProtectionXml } from './protection'
+import { DEFAULT_MARGINS, fitsToPage, pageMargins, pageMarginsXml, pageSetupXml, printTitlesRef, rowBreaksXml } from './pageSetup'
+import { DEFAULT_COLUMN_PX, DEFAULT_ROW_PX, autoColumnWidth, columnWidthToPixels, pixelsToColumnWidth, pixelsToPoints, textWidth } from './sizing'
+
+export interface StreamCell {
+    // Written as a number, boolean or inline string; undefined leaves an empty (styled) cell
+    value?: string | number | boolean
+    // xlsx-js-style cell style ({ font, fill, border, alignment })
+    style?: any
+    numberFormat?: string
+    formula?: string
+    hyperlink?: { target: string, tooltip?: string }
+    richText?: RichTextRun[]
+    validation?: DataValidation
+    comment?: CellComment
+    // Drawn from the top-left corner of the cell
+    image?: CellImage
+}
+
+export interface XlsxStreamWriterOptions {
+    // Column widths in characters; when omitted (or for missing entries) they are measured on the first `sampleRows` rows
+    columnWidths?: (number | undefined)[]
+    // @default 100
+    sampleRows?: number
+    // Distinct cell styles kept; later new styles fall back to the default style
+    // @default 4096
+    maxStyles?: number
+    // Size of the cell note boxes in pixels
+    // @default { width: 144, height: 80 }
+    noteSize?: { width: number, height: number }
+}
+
+export interface StreamSheetOptions {
+    // Widths of this sheet, replacing `options.columnWidths`
+    columnWidths?: (number | undefined)[]
+    // Zero-based columns written hidden
+    hiddenColumns?: number[]
+    // Rows and columns kept visible above and left of the scrolling pane
+    freeze?: { rows: number, columns: number }
+    // AutoFilter range, or the zero-based row it starts on (it then ends on the last row and column written)
+    autoFilter?: string | { fromRow: number }
+    // Conditional formats over the rows from `fromRow` (zero-based) to the last row written
+    conditionalFormats?: { fromRow: number, rules: ConditionalFormatRule[] }
+    // Where the summary rows and columns of outline groups sit, whether groups start collapsed, and column levels
+    outline?: { summaryBelow: boolean, summaryRight: boolean, collapsed: boolean, columnLevels?: number[] }
+    // Print settings
+    page?: PageSetup
+    // Leading rows repeated at the top of every printed page
+    printTitleRows?: number
+    // Protects the sheet; cells whose style has `protection: { locked: false }` stay editable
+    protection?: SheetProtection
+}
+
+interface SheetState {
+    path: string
+    // Rows held back until the column widths are known
+    pendingRows?: string[]
+    // Widths given up front, which replace the measured ones
+    fixedWidths: (number | undefined)[]
+    widths: number[]
+    // Widths written in <cols>, which place the note boxes
+    writtenWidths: number[]
+    hiddenColumns: number[]
+    // Merged ranges by their top-left cell
+    merges: Map<string, XLSX.Range>
+    hyperlinks: { ref: string, target: string, tooltip?: string }[]
+    validations: { address: XLSX.CellAddress, validation: DataValidation }[]
+    notes: SheetNote[]
+    images: SheetImage[]
+    autoFilter?: StreamSheetOptions['autoFilter']
+    conditionalFormats?: StreamSheetOptions['conditionalFormats']
+    outline?: StreamSheetOptions['outline']
+    page?: PageSetup
+    protection?: SheetProtection
+    // Zero-based rows starting a printed page
+    pageBreaks: number[]
+    // Deepest row level written before the sheet start
+    rowLevel: number
+    // Last row of a collapsed outline, written once the next row tells whether it is a summary row
+    heldRow?: { xml: string, level: number }
+    lastColumn: number
+}
+
+// Largest worksheet Excel opens
+export const MAX_ROWS = 1048576
+export const MAX_COLUMNS = 16384
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main'
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships'
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+
+/**
+ * Writes an XLSX package row by row to a Writable
+ * Rows are serialized and compressed as they arrive; only the current compression block,
+ * the first rows of a sheet (for column widths), merges, links and the style table are kept in memory
+ */
+export class XlsxStreamWriter {
+    private readonly zip: ZipWriter
+    private readonly styles: StyleRegistry
+    private readonly sheetNames: string[] = []
+    // AutoFilter range of each sheet, for the workbook's _FilterDatabase names
+    private readonly filterRanges: (string | undefined)[] = []
+    // Header rows of each sheet repeated on its printed pages, for the workbook's Print_Titles names
+    private readonly printTitleRows: (number | undefined)[] = []
+    // Sheet numbers with a comments part
+    private readonly commentSheets: number[] = []
+    // Sheet numbers with a drawing part
+    private readonly drawingSheets: number[] = []
+    private readonly media: MediaStore
+    private sheet?: SheetState
+    private rowCount = 0
+
+    constructor(private readonly output: Writable, private readonly options: XlsxStreamWriterOptions = {}) {
+        this.zip = new ZipWriter(output)
+        this.styles = new StyleRegistry(options.maxStyles ?? 4096)
+        this.media = new MediaStore((path, data) => this.zip.addEntry(path, data))
+    }
+
+    /**
+     * Start a new worksheet, closing the current one
+     */
+    startSheet(name: string, sheetOptions: StreamSheetOptions = {}) {
+        this.closeSheet()
+
+        const columnWidths = sheetOptions.columnWidths || this.options.columnWidths
+
+        // Rows are only held back while some width is still unknown
+        const fixedWidths = columnWidths || []
+        const complete = fixedWidths.length > 0 && Array.from(fixedWidths).every(width => width !== undefined)
+
+        this.sheetNames.push(name)
+        this.printTitleRows.push(sheetOptions.printTitleRows)
+        this.rowCount = 0
+        this.sheet = {
+            path: `xl/worksheets/sheet${this.sheetNames.length}.xml`,
+            pendingRows: complete ? undefined : [],
+            fixedWidths,
+            widths: [],
+            writtenWidths: [],
+            hiddenColumns: sheetOptions.hiddenColumns || [],
+            merges: new Map(),
+            hyperlinks: [],
+            validations: [],
+            notes: [],
+            images: [],
+            autoFilter: sheetOptions.autoFilter,
+            conditionalFormats: sheetOptions.conditionalFormats,
+            outline: sheetOptions.outline,
+            page: sheetOptions.page,
+            protection: sheetOptions.protection,
+            pageBreaks: [],
+            rowLevel: 0,
+            lastColumn: 0
+        }
+
+        this.zip.startEntry(this.sheet.path)
+        this.zip.write(`${XML_HEADER}<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">`)
+        const outline = sheetOptions.outline
+        const sheetProperties = (outline ? `<outlinePr summaryBelow="${outline.summaryBelow ? 1 : 0}" summaryRight="${outline.summaryRight ? 1 : 0}"/>` : '') +
+            (sheetOptions.page && fitsToPage(sheetOptions.page) ? '<pageSetUpPr fitToPage="1"/>' : '')
+        if (sheetProperties) {
+            this.zip.write(`<sheetPr>${sheetProperties}</sheetPr>`)
+        }
+        if (sheetOptions.freeze) {
+            this.zip.write(`<sheetViews>${frozenSheetViewXml(sheetOptions.freeze.rows, sheetOptions.freeze.columns)}</sheetViews>`)
+        }
+        if (complete) {
+            this.writeSheetStart(fixedWidths as number[], this.sheet.hiddenColumns)
+        }
+    }
+
+    /**
+     * Append the next row of the current sheet
+     * @param cells Cells by column; undefined entries are skipped
+     * @param height Row height in points
+     * @param hidden Write the row hidden
+     * @param level Outline level; rows of collapsed outlines with a level are hidden
+     * @param pageBreak Start a new printed page at this row
+     * @returns false when the output is saturated and the caller should wait for drain()
+     * @throws when the row would not fit in a worksheet (MAX_ROWS rows of MAX_COLUMNS columns)
+     */
+    addRow(cells: (StreamCell | undefined)[], height?: number, hidden = false, level = 0, pageBreak = false): boolean {
+        const sheet = this.sheet
+        if (!sheet) {
+            throw new Error('startSheet must be called before addRow')
+        }
+        if (this.rowCount >= MAX_ROWS) {
+            throw new Error(`Worksheet "${this.sheetNames[this.sheetNames.length - 1]}" is full: Excel sheets hold at most ${MAX_ROWS} rows, start a new sheet with startSheet()`)
+        }
+        if (cells.length > MAX_COLUMNS) {
+            throw new Error(`Row ${this.rowCount + 1} has ${cells.length} columns: Excel sheets hold at most ${MAX_COLUMNS} columns`)
+        }
+
+        const r = this.rowCount++
+        sheet.lastColumn = Math.max(sheet.lastColumn, cells.length - 1)
+        if (pageBreak && r > 0) {
+            sheet.pageBreaks.push(r)
+        }
+
+        // Rows grow to fit their images; images over merged rows count on the default height of the rows below
+        cells.forEach((cell, c) => {
+            if (!cell?.image) return
+            const rows = this.mergeAt(r, c)?.e.r ?? r
+            const needed = pixelsToPoints(cell.image.height - (rows - r) * DEFAULT_ROW_PX)
+            if (needed > (height ?? pixelsToPoints(DEFAULT_ROW_PX))) height = needed
+        })
+
+        const cellXml = cells.map((cell, c) => cell ? this.cellXml(cell, r, c) : '').join('')
+        const rowHidden = hidden || (!!sheet.outline?.collapsed && level > 0)
+        const rowXml = `<row r="${r + 1}"${height ? ` ht="${height}" customHeight="1"` : ''}${rowHidden ? ' hidden="1"' : ''}` +
+            `${level ? ` outlineLevel="${level}"` : ''}>${cellXml}</row>`
+
+        if (sheet.pendingRows) {
+            cells.forEach((cell, c) => {
+                const text = cell?.richText ? cell.richText.map(run => run.text).join('') : String(cell?.value ?? '')
+                sheet.widths[c] = Math.max(sheet.widths[c] || 0, textWidth(text, { bold: cell?.style?.font?.bold, size: cell?.style?.font?.sz }))
+            })
+            sheet.rowLevel = Math.max(sheet.rowLevel, level)
+        }
+
+        if (sheet.outline?.collapsed) {
+            // The summary row of a collapsed group carries its collapsed button
+            const held = sheet.heldRow
+            sheet.heldRow = { xml: rowXml, level }
+            if (!held) return !this.zip.needsDrain
+
+            if (sheet.outline.summaryBelow && held.level > level) {
+                sheet.heldRow.xml = collapsedRowXml(rowXml)
+            }
+            this.writeRow(!sheet.outline.summaryBelow && level > held.level ? collapsedRowXml(held.xml) : held.xml)
+        } else {
+            this.writeRow(rowXml)
+        }
+        return !this.zip.needsDrain
+    }
+
+    private mergeAt(r: number, c: number): XLSX.Range | undefined {
+        return this.sheet?.merges.get(XLSX.utils.encode_cell({ r, c }))
+    }
+
+    /**
+     * Merge a range of the current sheet
+     */
+    addMerge(range: XLSX.Range) {
+        this.sheet?.merges.set(XLSX.utils.encode_cell(range.s), range)
+    }
+
+    /**
+     * Resolves once the output can take more data
+     */
+    async drain(): Promise<void> {
+        await this.zip.drain()
+    }
+
+    /**
+     * Close the last sheet, write the workbook parts and end the output
+     * @param properties Document properties (title, author, custom properties, ...)
+     */
+    async finish(properties: DocumentProperties = {}): Promise<void> {
+        if (this.sheetNames.length === 0) {
+            throw new Error('No worksheet written')
+        }
+        this.closeSheet()
+
+        const sheets = this.sheetNames.map((name, index) =>
+            `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')
+        const sheetRelationships = this.sheetNames.map((_, index) =>
+            `<Relationship Id="rId${index + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('')
+        const sheetOverrides = this.sheetNames.map((_, index) =>
+            `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+        const commentOverrides = this.commentSheets.map(sheetNumber =>
+            `<Override PartName="/xl/comments${sheetNumber}.xml" ContentType="${COMMENTS_CONTENT_TYPE}"/>`).join('')
+        const drawingOverrides = this.drawingSheets.map(sheetNumber =>
+            `<Override PartName="/xl/drawings/drawing${sheetNumber}.xml" ContentType="${DRAWING_CONTENT_TYPE}"/>`).join('')
+        // Core properties are always written; the company and custom properties only when set
+        const propertyParts = [
+            { path: 'docProps/core.xml', xml: corePropertiesXml(properties), type: CORE_PROPERTIES_CONTENT_TYPE, relationship: CORE_PROPERTIES_RELATIONSHIP },
+            properties.company ? { path: 'docProps/app.xml', xml: appPropertiesXml(properties), type: APP_PROPERTIES_CONTENT_TYPE, relationship: APP_PROPERTIES_RELATIONSHIP } : undefined,
+            properties.custom && Object.keys(properties.custom).length > 0
+                ? { path: 'docProps/custom.xml', xml: customPropertiesXml(properties.custom), type: CUSTOM_PROPERTIES_CONTENT_TYPE, relationship: CUSTOM_PROPERTIES_RELATIONSHIP }
+                : undefined
+        ].filter(part => part !== undefined)
+        const mediaDefaults = Array.from(this.media.formats).map(format =>
+            `<Default Extension="${format}" ContentType="${IMAGE_CONTENT_TYPES[format]}"/>`).join('')
+
+        const filterNames = this.filterRanges.map((range, index) => range
+            ? `<definedName name="_xlnm._FilterDatabase" localSheetId="${index}" hidden="1">${escapeXml(`'${this.sheetNames[index].replace(/'/g, "''")}'!${absoluteRange(range)}`)}</definedName>`
+            : '').join('')
+        const titleNames = this.printTitleRows.map((rows, index) => rows
+            ? `<definedName name="_xlnm.Print_Titles" localSheetId="${index}">${escapeXml(printTitlesRef(this.sheetNames[index], rows))}</definedName>`
+            : '').join('')
+        const definedNames = filterNames || titleNames ? `<definedNames>${filterNames}${titleNames}</definedNames>` : ''
+
+        this.zip.addEntry('xl/workbook.xml', `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>${sheets}</sheets>${definedNames}<calcPr fullCalcOnLoad="1"/></workbook>`)
+        this.zip.addEntry('xl/_rels/workbook.xml.rels', `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">${sheetRelationships}` +
+            `<Relationship Id="rId${this.sheetNames.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/></Relationships>`)
+        this.zip.addEntry('xl/styles.xml', this.styles.toXml())
+        propertyParts.forEach(part => this.zip.addEntry(part.path, part.xml))
+        this.zip.addEntry('_rels/.rels', `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">` +
+            `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+            propertyParts.map((part, index) => `<Relationship Id="rId${index + 2}" Type="${part.relationship}" Target="${part.path}"/>`).join('') +
+            '</Relationships>')
+        this.zip.addEntry('[Content_Types].xml', `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+            '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+            '<Default Extension="xml" ContentType="application/xml"/>' +
+            (this.commentSheets.length > 0 ? `<Default Extension="vml" ContentType="${VML_CONTENT_TYPE}"/>` : '') +
+            mediaDefaults +
+            '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+            '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+            `${sheetOverrides}${commentOverrides}${drawingOverrides}` +
+            propertyParts.map(part => `<Override PartName="/${part.path}" ContentType="${part.type}"/>`).join('') +
+            '</Types>')
+
+        await this.zip.finish()
+    }
+
+    private cellXml(cell: StreamCell, r: number, c: number): string {
+        const ref = XLSX.utils.encode_cell({ r, c })
+        const styleIndex = this.styles.register(cell.style, cell.numberFormat)
+        const styleAttr = styleIndex ? ` s="${styleIndex}"` : ''
+
+        if (cell.hyperlink) {
+            this.sheet?.hyperlinks.push({ ref, ...cell.hyperlink })
+        }
+        if (cell.validation) {
+            this.sheet?.validations.push({ address: { r, c }, validation: cell.validation })
+        }
+        if (cell.comment) {
+            this.sheet?.notes.push({ address: { r, c }, comment: cell.comment })
+        }
+        if (cell.image) {
+            this.sheet?.images.push({ address: { r, c }, image: cell.image })
+        }
+
+        const value = cell.value
+        if (cell.formula) {
+            // The cell's value is cached for readers that do not recalculate
+            const formula = `<f>${escapeXml(cell.formula)}</f>`
+            if (typeof value === 'number' && isFinite(value)) {
+                return `<c r="${ref}"${styleAttr}>${formula}<v>${value}</v></c>`
+            }
+            if (typeof value === 'boolean') {
+                return `<c r="${ref}"${styleAttr} t="b">${formula}<v>${value ? 1 : 0}</v></c>`
+            }
+            if (typeof value === 'string' && value !== '') {
+                return `<c r="${ref}"${styleAttr} t="str">${formula}<v>${escapeXml(value)}</v></c>`
+            }
+            return `<c r="${ref}"${styleAttr}>${formula}</c>`
+        }
+
+        if (typeof value === 'number' && isFinite(value)) {
+            return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`
+        }
+        if (typeof value === 'boolean') {
+            return `<c r="${ref}"${styleAttr} t="b"><v>${value ? 1 : 0}</v></c>`
+        }
+        if (cell.richText && typeof value === 'string') {
+            return `<c r="${ref}"${styleAttr} t="inlineStr"><is>${richTextXml(cell.richText, cell.style?.font)}</is></c>`
+        }
+        if (value === undefined || value === '') {
+            return `<c r="${ref}"${styleAttr}/>`
+        }
+        return `<c r="${ref}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+    }
+
+    private writeRow(rowXml: string) {
+        const sheet = this.sheet
+        if (sheet?.pendingRows) {
+            sheet.pendingRows.push(rowXml)
+            if (sheet.pendingRows.length >= (this.options.sampleRows ?? 100)) {
+                this.flushPendingRows()
+            }
+        } else {
+            this.zip.write(rowXml)
+        }
+    }
+
+    private flushPendingRows() {
+        const sheet = this.sheet
+        if (!sheet?.pendingRows) return
+
+        // Same limits as the in-memory writer: 10 to 50 characters
+        const measured = Array.from({ length: Math.max(sheet.widths.length, sheet.fixedWidths.length) }, (_, c) =>
+            sheet.fixedWidths[c] ?? autoColumnWidth(sheet.widths[c] || 0))
+
+        // Columns grow to fit the images of the measured rows; in a merged range the first column grows
+        const columnPixels = (c: number) => measured[c] !== undefined ? columnWidthToPixels(measured[c]) : DEFAULT_COLUMN_PX
+        sheet.images.forEach(({ address, image }) => {
+            const end = this.mergeAt(address.r, address.c)?.e.c ?? address.c
+            let width = 0
+            for (let c = address.c; c <= end; c++) width += columnPixels(c)
+            if (width < image.width) {
+                measured[address.c] = pixelsToColumnWidth(columnPixels(address.c) + image.width - width)
+            }
+        })
+        this.writeSheetStart(measured, sheet.hiddenColumns)
+        sheet.pendingRows.forEach(row => this.zip.write(row))
+        sheet.pendingRows = undefined
+    }
+
+    private writeSheetStart(widths: number[], hiddenColumns: number[]) {
+        const outline = this.sheet?.outline
+        const levels = outline?.columnLevels || []
+        const collapsed = outline?.collapsed ? outlineSummaries(levels, !outline.summaryRight) : []
+        const count = Math.max(widths.length, levels.length, ...hiddenColumns.map(index => index + 1))
+        if (this.sheet) {
+            this.sheet.writtenWidths = widths
+        }
+        const cols = Array.from({ length: count }, (_, index) => {
+            const level = levels[index] || 0
+            const hidden = hiddenColumns.includes(index) || (!!outline?.collapsed && level > 0)
+            // Hidden and grouped columns keep a width to come back with when they are shown
+            const width = widths[index] || (hidden || level ? autoColumnWidth(0) : 0)
+            const attributes = `${hidden ? ' hidden="1"' : ''}${level ? ` outlineLevel="${level}"` : ''}${collapsed.includes(index) ? ' collapsed="1"' : ''}`
+            return width ? `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"${attributes}/>` : ''
+        }).join('')
+
+        // Deepest levels for Excel's outline buttons; rows only count up to the measured ones
+        const rowLevel = this.sheet?.rowLevel || 0
+        const columnLevel = Math.max(0, ...levels)
+        const sheetFormat = rowLevel || columnLevel
+            ? `<sheetFormatPr defaultRowHeight="15"${rowLevel ? ` outlineLevelRow="${rowLevel}"` : ''}${columnLevel ? ` outlineLevelCol="${columnLevel}"` : ''}/>`
+            : ''
+        this.zip.write(`${sheetFormat}${cols ? `<cols>${cols}</cols>` : ''}<sheetData>`)
+    }
+
+    private closeSheet() {
+        const sheet = this.sheet
+        if (!sheet) return
+
+        if (sheet.heldRow) {
+            this.writeRow(sheet.heldRow.xml)
+            sheet.heldRow = undefined
+        }
+        this.flushPendingRows()
+        this.zip.write('</sheetData>')
+        if (sheet.protection) {
+            this.zip.write(sheetProtectionXml(sheet.protection))
+        }
+
+        const autoFilter = typeof sheet.autoFilter === 'object'
+            ? XLSX.utils.encode_range({ s: { r: sheet.autoFilter.fromRow, c: 0 }, e: { r: Math.max(this.rowCount - 1, sheet.autoFilter.fromRow), c: sheet.lastColumn } })
+            : sheet.autoFilter
+        this.filterRanges.push(autoFilter)
+        if (autoFilter) {
+            this.zip.write(`<autoFilter ref="${autoFilter}"/>`)
+        }
+
+        if (sheet.merges.size > 0) {
+            const refs = Array.from(sheet.merges.values(), range => XLSX.utils.encode_range(range))
+            this.zip.write(`<mergeCells count="${refs.length}">${refs.map(ref => `<mergeCell ref="${ref}"/>`).join('')}</mergeCells>`)
+        }
+
+        if (sheet.conditionalFormats) {
+            const ranges = conditionalFormatRanges(sheet.conditionalFormats.rules, sheet.conditionalFormats.fromRow, this.rowCount - 1, sheet.lastColumn)
+            this.zip.write(conditionalFormattingXml(ranges, style => this.styles.dxfId(style)))
+        }
+
+        this.zip.write(dataValidationsXml(sheet.validations))
+
+        // Internal targets (#Sheet!A1) are locations, everything else is an external relationship
+        const relationships: string[] = []
+        if (sheet.hyperlinks.length > 0) {
+            const links = sheet.hyperlinks.map(({ ref, target, tooltip }) => {
+                const tooltipAttr = tooltip ? ` tooltip="${escapeXml(tooltip)}"` : ''
+                if (target.startsWith('#')) {
+                    // Apostrophes stay literal: sheet names in locations are quoted with them
+                    return `<hyperlink ref="${ref}" location="${escapeXml(target.substring(1)).replace(/&apos;/g, "'")}"${tooltipAttr}/>`
+                }
+                relationships.push(`<Relationship Id="rId${relationships.length + 1}" Type="${REL_NS}/hyperlink" Target="${escapeXml(target)}" TargetMode="External"/>`)
+                return `<hyperlink ref="${ref}" r:id="rId${relationships.length}"${tooltipAttr}/>`
+            })
+            this.zip.write(`<hyperlinks>${links.join('')}</hyperlinks>`)
+        }
+
+        const page = sheet.page && pageSetupXml(sheet.page)
+        this.zip.write((page?.printOptions || '') + pageMarginsXml(sheet.page ? pageMargins(sheet.page) : DEFAULT_MARGINS) + (page?.pageSetup || ''))
+        this.zip.write(rowBreaksXml(sheet.pageBreaks))
+
+        const sheetNumber = this.sheetNames.length
+        if (sheet.images.length > 0) {
+            relationships.push(`<Relationship Id="rId${relationships.length + 1}" Type="${DRAWING_RELATIONSHIP}" Target="../drawings/drawing${sheetNumber}.xml"/>`)
+            this.zip.write(`<drawing r:id="rId${relationships.length}"/>`)
+        }
+
+        // Notes: a comments part with the texts and a VML drawing with their boxes
+        if (sheet.notes.length > 0) {
+            relationships.push(`<Relationship Id="rId${relationships.length + 1}" Type="${COMMENTS_RELATIONSHIP}" Target="../comments${sheetNumber}.xml"/>`)
+            relationships.push(`<Relationship Id="rId${relationships.length + 1}" Type="${VML_RELATIONSHIP}" Target="../drawings/vmlDrawing${sheetNumber}.vml"/>`)
+            this.zip.write(`<legacyDrawing r:id="rId${relationships.length}"/>`)
+        }
+
+        this.zip.write('</worksheet>')
+        this.zip.endEntry()
+
+        if (sheet.notes.length > 0) {
+            this.zip.addEntry(`xl/comments${sheetNumber}.xml`, commentsXml(sheet.notes))
+            this.zip.addEntry(`xl/drawings/vmlDrawing${sheetNumber}.vml`, vmlDrawingXml(sheet.notes, sheetNumber,
+                this.options.noteSize || DEFAULT_NOTE_SIZE, c => sheet.writtenWidths[c] || undefined))
+            this.commentSheets.push(sheetNumber)
+        }
+
+        if (sheet.images.length > 0) {
+            const parts = drawingParts(sheet.images, image => this.media.path(image))
+            this.zip.addEntry(`xl/drawings/drawing${sheetNumber}.xml`, parts.drawing)
+            this.zip.addEntry(`xl/drawings/_rels/drawing${sheetNumber}.xml.rels`, parts.relationships)
+            this.drawingSheets.push(sheetNumber)
+        }
+
+        if (relationships.length > 0) {
+            const relsPath = sheet.path.replace('worksheets/', 'worksheets/_rels/') + '.rels'
+            this.zip.addEntry(relsPath, `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">${relationships.join('')}</Relationships>`)
+        }
+
+        this.sheet = undefined
+    }
+}
+
+// Marks the summary row of a collapsed group
+function collapsedRowXml(rowXml: string): string {
+    return rowXml.replace('>', ' collapsed="1">')
+}
+
+// A1:C10 -> $A$1:$C$10
+function absoluteRange(range: string): string {
+    return range.replace(/([A-Z]+)(\d+)/g, '$$$1$$$2')
+}
+
+/**
+ * Deduplicated fonts, fills, borders, number formats and cell formats (xf) of a workbook
+ */
+class StyleRegistry {
+    private readonly fonts = new Map<string, number>([['<font><sz val="11"/><name val="Calibri"/></font>', 0]])
+    private readonly fills = new Map<string, number>([
+        ['<fill><patternFill patternType="none"/></fill>', 0],
+        ['<fill><patternFill patternType="gray125"/></fill>', 1]
+    ])
+    private readonly borders = new Map<string, number>([['<border><left/><right/><top/><bottom/><diagonal/></border>', 0]])
+    private readonly numberFormats = new Map<string, number>()
+    private readonly cellFormats = new Map<string, number>([['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>', 0]])
+    // Differential formats of conditional formatting rules
+    private readonly dxfs = new Map<string, number>()
+    private warned = false
+
+    constructor(private readonly maxStyles: number) { }
+
+    /**
+     * Index of the cell format for a style and number format (0 is the default format)
+     */
+    register(style: any, numberFormat?: string): number {
+        if (!style && !numberFormat) return 0
+
+        const fontId = this.index(this.fonts, fontXml(style?.font))
+        const fillId = style?.fill?.fgColor?.rgb
+            ? this.index(this.fills, `<fill><patternFill patternType="solid"><fgColor rgb="${argb(style.fill.fgColor.rgb)}"/><bgColor indexed="64"/></patternFill></fill>`)
+            : 0
+        const borderId = this.index(this.borders, borderXml(style?.border))
+        const numFmtId = numberFormat && numberFormat !== 'General' ? this.numberFormatId(numberFormat) : 0
+        const alignment = alignmentXml(style?.alignment)
+        const protection = style?.protection?.locked === false ? '<protection locked="0"/>' : ''
+
+        const xf = `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}" borderId="${borderId}" xfId="0"` +
+            `${numFmtId ? ' applyNumberFormat="1"' : ''} applyFont="1" applyFill="1" applyBorder="1"` +
+            `${alignment ? ' applyAlignment="1"' : ''}${protection ? ' applyProtection="1"' : ''}` +
+            (alignment || protection ? `>${alignment}${protection}</xf>` : '/>')
+
+        const existing = this.cellFormats.get(xf)
+        if (existing !== undefined) return existing
+
+        if (this.cellFormats.size >= this.maxStyles) {
+            if (!this.warned) {
+                console.warn(`⚠️ More than ${this.maxStyles} distinct cell styles; further new styles use the default style`)
+                this.warned = true
+            }
+            return 0
+        }
+
+        return this.index(this.cellFormats, xf)
+    }
+
+    toXml(): string {
+        const list = (tag: string, map: Map<string, number>) => `<${tag} count="${map.size}">${Array.from(map.keys()).join('')}</${tag}>`
+        const numFmts = Array.from(this.numberFormats.entries())
+            .map(([code, id]) => `<numFmt numFmtId="${id}" formatCode="${escapeXml(code)}"/>`).join('')
+
+        return `${XML_HEADER}<styleSheet xmlns="${MAIN_NS}">` +
+            (numFmts ? `<numFmts count="${this.numberFormats.size}">${numFmts}</numFmts>` : '') +
+            list('fonts', this.fonts) + list('fills', this.fills) + list('borders', this.borders) +
+            '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+            list('cellXfs', this.cellFormats) +
+            '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+            (this.dxfs.size > 0 ? list('dxfs', this.dxfs) : '') + '</styleSheet>'
+    }
+
+    /**
+     * Index of a conditional format style in <dxfs>
+     */
+    dxfId(style: ConditionalStyle): number {
+        return this.index(this.dxfs, dxfXml(style))
+    }
+
+    private index(map: Map<string, number>, xml: string): number {
+        let id = map.get(xml)
+        if (id === undefined) {
+            id = map.size
+            map.set(xml, id)
+        }
+        return id
+    }
+
+    private numberFormatId(code: string): number {
+        let id = this.numberFormats.get(code)
+        if (id === undefined) {
+            // Custom formats start at 164
+            id = 164 + this.numberFormats.size
+            this.numberFormats.set(code, id)
+        }
+        return id
+    }
+}
+
+function argb(rgb: string): string {
+    return rgb.length === 6 ? `FF${rgb.toUpperCase()}` : rgb.toUpperCase()
+}
+
+function fontXml(font: any = {}): string {
+    return '<font>' +
+        (font.bold ? '<b/>' : '') +
+        (font.italic ? '<i/>' : '') +
+        (font.strike ? '<strike/>' : '') +
+        (font.underline ? '<u/>' : '') +
+        (font.vertAlign ? `<vertAlign val="${font.vertAlign}"/>` : '') +
+        `<sz val="${font.sz || 11}"/>` +
+        (font.color?.rgb ? `<color rgb="${argb(font.color.rgb)}"/>` : '') +
+        `<name val="${escapeXml(font.name || 'Calibri')}"/>` +
+        '</font>'
+}
+
+function borderXml(border: any = {}): string {
+    const side = (name: string) => {
+        const edge = border[name]
+        if (!edge?.style) return `<${name}/>`
+        return `<${name} style="${edge.style}">${edge.color?.rgb ? `<color rgb="${argb(edge.color.rgb)}"/>` : ''}</${name}>`
+    }
+    return `<border>${side('left')}${side('right')}${side('top')}${side('bottom')}<diagonal/></border>`
+}
+
+function alignmentXml(alignment: any): string {
+    if (!alignment) return ''
+
+    const attributes = [
+        alignment.horizontal ? `horizontal="${alignment.horizontal}"` : '',
+        alignment.vertical ? `vertical="${alignment.vertical}"` : '',
+        alignment.wrapText ? 'wrapText="1"' : '',
+        alignment.indent ? `indent="${alignment.indent}"` : ''
+    ].filter(Boolean)
+
+    return attributes.length > 0 ? `<alignment ${attributes.join(' ')}/>` : ''
+}
+
+const CRC_TABLE = (() => {
+    const table = new Int32Array(256)
+    for (let n = 0; n < 256; n++) {
+        let c = n
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+        }
+        table[n] = c
+    }
+    return table
+})()
+
+function crc32(data: Buffer, crc = 0): number {
+    let value = crc ^ -1
+    for (let i = 0; i < data.length; i++) {
+        value = CRC_TABLE[(value ^ data[i]) & 0xFF] ^ (value >>> 8)
+    }
+    return (value ^ -1) >>> 0
+}
+
+interface ZipEntry {
+    name: Buffer
+    offset: number
+    crc: number
+    compressedSize: number
+    size: number
+}
+
+/**
+ * Minimal streaming ZIP writer (deflate, data descriptors, no ZIP64)
+ * Entry data is compressed in blocks ending with a sync flush, so each block can be written
+ * out immediately and the blocks together form one deflate stream
+ */
+class ZipWriter {
+    private static readonly BLOCK_SIZE = 64 * 1024
+    private static readonly MAX_SIZE = 0xFFFFFFFF
+
+    private readonly entries: ZipEntry[] = []
+    private current?: ZipEntry
+    private pending: Buffer[] = []
+    private pendingSize = 0
+    private offset = 0
+    private error?: Error
+    private readonly time: number
+    private readonly date: number
+
+    constructor(private readonly output: Writable) {
+        output.on('error', error => { this.error = error })
+
+        const now = new Date()
+        this.time = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2)
+        this.date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate()
+    }
+
+    get needsDrain(): boolean {
+        return this.output.writableNeedDrain
+    }
+
+    startEntry(name: string) {
+        if (this.current) {
+            throw new Error(`Entry ${this.current.name.toString()} is still open`)
+        }
+
+        const nameBuffer = Buffer.from(name, 'utf8')
+        this.current = { name: nameBuffer, offset: this.offset, crc: 0, compressedSize: 0, size: 0 }
+
+        const header = Buffer.alloc(30)
+        header.writeUInt32LE(0x04034B50, 0)
+        header.writeUInt16LE(20, 4)
+        header.writeUInt16LE(0x0808, 6) // data descriptor follows, UTF-8 names
+        header.writeUInt16LE(8, 8) // deflate
+        header.writeUInt16LE(this.time, 10)
+        header.writeUInt16LE(this.date, 12)
+        header.writeUInt16LE(nameBuffer.length, 26)
+        this.emit(Buffer.concat([header, nameBuffer]))
+    }
+
+    write(data: string | Buffer) {
+        const buffer = typeof data === 'string' ? Buffer.from(data, 'utf8') : data
+        this.pending.push(buffer)
+        this.pendingSize += buffer.length
+
+        if (this.pendingSize >= ZipWriter.BLOCK_SIZE) {
+            this.flushBlock(false)
+        }
+    }
+
+    endEntry() {
+        const entry = this.current
+        if (!entry) return
+
+        this.flushBlock(true)
+        if (entry.size > ZipWriter.MAX_SIZE || this.offset > ZipWriter.MAX_SIZE) {
+            throw new Error('Output exceeds 4 GB, which needs ZIP64 (not supported)')
+        }
+
+        const descriptor = Buffer.alloc(16)
+        descriptor.writeUInt32LE(0x08074B50, 0)
+        descriptor.writeUInt32LE(entry.crc, 4)
+        descriptor.writeUInt32LE(entry.compressedSize, 8)
+        descriptor.writeUInt32LE(entry.size, 12)
+        this.emit(descriptor)
+
+        this.entries.push(entry)
+        this.current = undefined
+    }
+
+    addEntry(name: string, content: string | Buffer) {
+        this.startEntry(name)
+        this.write(content)
+        this.endEntry()
+    }
+
+    async drain(): Promise<void> {
+        if (this.error) throw this.error
+        if (this.output.writableNeedDrain) {
+            await once(this.output, 'drain')
+        }
+    }
+
+    async finish(): Promise<void> {
+        const directoryOffset = this.offset
+        this.entries.forEach(entry => {
+            const header = Buffer.alloc(46)
+            header.writeUInt32LE(0x02014B50, 0)
+            header.writeUInt16LE(20, 4)
+            header.writeUInt16LE(20, 6)
+            header.writeUInt16LE(0x0808, 8)
+            header.writeUInt16LE(8, 10)
+            header.writeUInt16LE(this.time, 12)
+            header.writeUInt16LE(this.date, 14)
+            header.writeUInt32LE(entry.crc, 16)
+            header.writeUInt32LE(entry.compressedSize, 20)
+            header.writeUInt32LE(entry.size, 24)
+            header.writeUInt16LE(entry.name.length, 28)
+            header.writeUInt32LE(entry.offset, 42)
+            this.emit(Buffer.concat([header, entry.name]))
+        })
+
+        const end = Buffer.alloc(22)
+        end.writeUInt32LE(0x06054B50, 0)
+        end.writeUInt16LE(this.entries.length, 8)
+        end.writeUInt16LE(this.entries.length, 10)
+        end.writeUInt32LE(this.offset - directoryOffset, 12)
+        end.writeUInt32LE(directoryOffset, 16)
+        this.emit(end)
+
+        if (this.error) throw this.error
+        const finished = once(this.output, 'finish')
+        this.output.end()
+        await finished
+    }
+
+    private flushBlock(last: boolean) {
+        const entry = this.current as ZipEntry
+        const data = Buffer.concat(this.pending)
+        this.pending = []
+        this.pendingSize = 0
+
+        entry.crc = crc32(data, entry.crc)
+        entry.size += data.length
+
+        const blocks = [zlib.deflateRawSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH })]
+        if (last) {
+            // Empty final block closes the deflate stream
+            blocks.push(zlib.deflateRawSync(Buffer.alloc(0)))
+        }
+
+        const compressed = Buffer.concat(blocks)
+        entry.compressedSize += compressed.length
+        this.emit(compressed)
+    }
+
+    private emit(buffer: Buffer) {
+        if (this.error) throw this.error
+        this.output.write(buffer)
+        this.offset += buffer.length
+    }
+}